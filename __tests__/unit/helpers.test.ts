@@ -6,7 +6,64 @@ import {
   sanitizeSearchQuery,
   makeSpeechFriendly,
   shortenForListing,
-  normalizeSearchQuery
+  normalizeSearchQuery,
+  matchesOrderFilters,
+  matchesIdentity,
+  isCallerVerified,
+  markCallerVerified,
+  isVerificationLocked,
+  recordVerificationFailure,
+  verificationKeys,
+  normalizeLanguage,
+  addBusinessDays,
+  describeDay,
+  parseTransitDays,
+  estimateDelivery,
+  normalizePhoneNumber,
+  matchCustomersByPhone,
+  phoneSearchPattern,
+  formatReturnNumber,
+  parseReturnNumber,
+  checkReturnEligibility,
+  selectReturnRows,
+  matchVariants,
+  computeConsumerPrice,
+  detectBrand,
+  rankAlternatives,
+  stripHtml,
+  answerSpecQuestion,
+  diffSpecs,
+  parseSearchFilters,
+  describeSearchFilters,
+  matchCategory,
+  categoryWithDescendants,
+  summarizeCategoryPrices,
+  correctSpeechQuery,
+  searchCatalogIndex,
+  scoreSearchResult,
+  priceToWords,
+  parseSpokenReference,
+  applyPronunciation,
+  pronounceResult,
+  formatTicketNumber,
+  parseSupportContacts,
+  buildTicketSummary,
+  parseTicketCategory,
+  parseTicketNumber,
+  latestStaffReplies,
+  isNearDuplicateTicket,
+  orthodoxEaster,
+  cyprusHolidays,
+  parseStoreHours,
+  parseStoreHoursField,
+  parseStoreHolidays,
+  nextCallbackSlots,
+  isCallbackSlot,
+  describeSlot,
+  spokenTime,
+  spokenAtTime,
+  spokenHours,
+  resolveStoreDate
 } from '../../src/index';
 
 describe('escapeCdata', () => {
@@ -121,6 +178,30 @@ describe('makeSpeechFriendly', () => {
   it('should fix G model numbers', () => {
     expect(makeSpeechFriendly('LG G8')).toBe('LG G 8');
   });
+
+  it('should expand frequency, power and screen size units', () => {
+    expect(makeSpeechFriendly('15.6" 144Hz')).toBe('15.6 inch 144 hertz');
+    expect(makeSpeechFriendly('3.2GHz 65W')).toBe('3.2 gigahertz 65 watts');
+  });
+
+  it('should convert euro prices to words', () => {
+    expect(makeSpeechFriendly('Now €37.20')).toBe('Now thirty-seven euros twenty');
+  });
+
+  it('should produce Greek spoken forms', () => {
+    expect(makeSpeechFriendly('16GB DDR5', 'el')).toBe('16 γκιγκαμπάιτ ντι ντι αρ 5');
+    expect(makeSpeechFriendly('Intel i5-1145G7', 'el')).toBe('Intel άι 5 1145 τζι 7');
+    expect(makeSpeechFriendly('2.4GHz USB', 'el')).toBe('2,4 γκιγκαχέρτζ γιου ες μπι');
+    expect(makeSpeechFriendly('Τιμή €37.20', 'el')).toBe('Τιμή τριάντα επτά ευρώ είκοσι');
+  });
+
+  it('should produce Russian spoken forms with plural agreement', () => {
+    expect(makeSpeechFriendly('1TB SSD', 'ru')).toBe('1 терабайт эс эс ди');
+    expect(makeSpeechFriendly('2TB', 'ru')).toBe('2 терабайта');
+    expect(makeSpeechFriendly('16GB', 'ru')).toBe('16 гигабайт');
+    expect(makeSpeechFriendly('27" 165Hz', 'ru')).toBe('27 дюймов 165 герц');
+    expect(makeSpeechFriendly('Core i7-12700', 'ru')).toBe('Core ай 7 12700');
+  });
 });
 
 describe('shortenForListing', () => {
@@ -299,6 +380,18 @@ describe('normalizeSearchQuery', () => {
     });
   });
 
+  describe('Greek and Russian queries', () => {
+    it('should keep Greek and Cyrillic letters', () => {
+      expect(normalizeSearchQuery('Οθόνη gaming').variations[0]).toBe('οθόνη gaming');
+      expect(normalizeSearchQuery('игровой ноутбук').variations[0]).toBe('игровой ноутбук');
+    });
+
+    it('should remove Greek and Russian stop words', () => {
+      expect(normalizeSearchQuery('θέλω ένα λάπτοπ').terms).toEqual(['λάπτοπ']);
+      expect(normalizeSearchQuery('я ищу ноутбук для игр').terms).toEqual(['ноутбук', 'игр']);
+    });
+  });
+
   describe('deduplication', () => {
     it('should not have duplicate variations', () => {
       const result = normalizeSearchQuery('rtx rtx graphics');
@@ -307,3 +400,1314 @@ describe('normalizeSearchQuery', () => {
     });
   });
 });
+
+describe('matchesOrderFilters', () => {
+  const order = {
+    id: 42,
+    reference: 'ABCDEFGHI',
+    current_state: 4,
+    total_paid: '349.90',
+    date_add: '2024-03-15 10:22:00',
+    payment: 'Card',
+    associations: {
+      order_rows: [
+        { product_name: 'LG UltraGear 27GP850 Gaming Monitor', product_quantity: '1' },
+        { product_name: 'Logitech G502 Mouse', product_quantity: '2' }
+      ]
+    }
+  };
+
+  it('should match when no filters are given', () => {
+    expect(matchesOrderFilters(order, {})).toBe(true);
+  });
+
+  it('should match by exact day, month, or DD/MM/YYYY date', () => {
+    expect(matchesOrderFilters(order, { date: '2024-03-15' })).toBe(true);
+    expect(matchesOrderFilters(order, { date: '2024-03' })).toBe(true);
+    expect(matchesOrderFilters(order, { date: '15/3/2024' })).toBe(true);
+    expect(matchesOrderFilters(order, { date: '2024-04' })).toBe(false);
+  });
+
+  it('should match approximate amounts', () => {
+    expect(matchesOrderFilters(order, { amount: 350 })).toBe(true);
+    expect(matchesOrderFilters(order, { amount: 340 })).toBe(true);  // within 5%
+    expect(matchesOrderFilters(order, { amount: 200 })).toBe(false);
+  });
+
+  it('should match a product mentioned by the caller', () => {
+    expect(matchesOrderFilters(order, { product: 'the monitor' })).toBe(true);
+    expect(matchesOrderFilters(order, { product: 'logitech mouse' })).toBe(true);
+    expect(matchesOrderFilters(order, { product: 'keyboard' })).toBe(false);
+  });
+
+  it('should require all terms to match the same order row', () => {
+    expect(matchesOrderFilters(order, { product: 'lg mouse' })).toBe(false);
+  });
+
+  it('should combine filters', () => {
+    expect(matchesOrderFilters(order, { date: '2024-03', product: 'monitor' })).toBe(true);
+    expect(matchesOrderFilters(order, { date: '2024-03', amount: 50 })).toBe(false);
+  });
+});
+
+describe('matchesIdentity', () => {
+  const record = {
+    lastnames: ['Papadopoulos', 'Papadópoulos'],
+    postcodes: ['1066', 'CY 3025'],
+    totals: ['349.90', '12.5']
+  };
+
+  it('should accept a matching last name regardless of case and accents', () => {
+    expect(matchesIdentity(record, { last_name: 'papadopoulos' })).toBe(true);
+    expect(matchesIdentity(record, { last_name: '  PAPADOPOULOS ' })).toBe(true);
+    expect(matchesIdentity(record, { last_name: 'Georgiou' })).toBe(false);
+  });
+
+  it('should accept a matching postcode ignoring spaces', () => {
+    expect(matchesIdentity(record, { postcode: '1066' })).toBe(true);
+    expect(matchesIdentity(record, { postcode: 'cy3025' })).toBe(true);
+    expect(matchesIdentity(record, { postcode: '2000' })).toBe(false);
+  });
+
+  it('should accept an order total in euros and cents', () => {
+    expect(matchesIdentity(record, { total_digits: '34990' })).toBe(true);
+    expect(matchesIdentity(record, { total_digits: '349.90' })).toBe(true);
+    expect(matchesIdentity(record, { total_digits: '349,9' })).toBe(true);
+    expect(matchesIdentity(record, { total_digits: 1250 })).toBe(true); // 12.50
+    expect(matchesIdentity(record, { total_digits: '34991' })).toBe(false);
+  });
+
+  it('should reject the cents alone', () => {
+    expect(matchesIdentity(record, { total_digits: '90' })).toBe(false);
+    expect(matchesIdentity(record, { total_digits: '990' })).toBe(false);
+    expect(matchesIdentity(record, { total_digits: 250 })).toBe(false);
+    expect(matchesIdentity(record, { total_digits: '0' })).toBe(false);
+  });
+
+  it('should reject part of the euro amount', () => {
+    expect(matchesIdentity(record, { total_digits: '4990' })).toBe(false);
+    expect(matchesIdentity(record, { total_digits: '49.90' })).toBe(false);
+    expect(matchesIdentity(record, { total_digits: '349' })).toBe(false);
+  });
+
+  it('should accept short totals, with or without the leading zero', () => {
+    expect(matchesIdentity({ lastnames: [], postcodes: [], totals: ['9.90'] }, { total_digits: '990' })).toBe(true);
+    expect(matchesIdentity({ lastnames: [], postcodes: [], totals: ['0.99'] }, { total_digits: '0.99' })).toBe(true);
+    expect(matchesIdentity({ lastnames: [], postcodes: [], totals: ['0.99'] }, { total_digits: '99' })).toBe(true);
+  });
+
+  it('should reject empty answers', () => {
+    expect(matchesIdentity(record, {})).toBe(false);
+    expect(matchesIdentity(record, { last_name: '', postcode: '' })).toBe(false);
+  });
+});
+
+describe('caller verification state', () => {
+  it('should remember verified customers per call', () => {
+    markCallerVerified('call_verify_1', 7);
+    expect(isCallerVerified('call_verify_1', 7)).toBe(true);
+    expect(isCallerVerified('call_verify_1', 8)).toBe(false);
+    expect(isCallerVerified('call_verify_2', 7)).toBe(false);
+  });
+
+  it('should track several customers in the same call', () => {
+    markCallerVerified('call_verify_3', 1);
+    markCallerVerified('call_verify_3', 2);
+    expect(isCallerVerified('call_verify_3', 1)).toBe(true);
+    expect(isCallerVerified('call_verify_3', 2)).toBe(true);
+  });
+
+  it('should never treat calls without an ID as verified', () => {
+    markCallerVerified(undefined, 9);
+    expect(isCallerVerified(undefined, 9)).toBe(false);
+  });
+
+  it('should lock verification after three wrong answers', () => {
+    recordVerificationFailure('call_verify_4');
+    recordVerificationFailure('call_verify_4');
+    expect(isVerificationLocked('call_verify_4')).toBe(false);
+    recordVerificationFailure('call_verify_4');
+    expect(isVerificationLocked('call_verify_4')).toBe(true);
+    expect(isVerificationLocked('call_verify_5')).toBe(false);
+  });
+
+  it('should count calls without an ID against the account', () => {
+    expect(verificationKeys({}, 'customer:7')).toEqual(['customer:7']);
+    expect(verificationKeys({ callId: 'call_verify_6' }, 'customer:7')).toEqual(['call_verify_6', 'customer:7']);
+    for (let i = 0; i < 3; i++) verificationKeys({}, 'customer:7').forEach(key => recordVerificationFailure(key));
+    expect(verificationKeys({ callId: 'call_verify_7' }, 'customer:7').some(isVerificationLocked)).toBe(true);
+  });
+});
+
+describe('normalizeLanguage', () => {
+  it('should accept ISO codes and locales', () => {
+    expect(normalizeLanguage('el')).toBe('el');
+    expect(normalizeLanguage('el-GR')).toBe('el');
+    expect(normalizeLanguage('ru_RU')).toBe('ru');
+    expect(normalizeLanguage('en-US')).toBe('en');
+  });
+
+  it('should accept PrestaShop\'s "gr" code for Greek', () => {
+    expect(normalizeLanguage('gr')).toBe('el');
+  });
+
+  it('should accept language names', () => {
+    expect(normalizeLanguage('Greek')).toBe('el');
+    expect(normalizeLanguage('Ελληνικά')).toBe('el');
+    expect(normalizeLanguage('русский')).toBe('ru');
+  });
+
+  it('should default to Greek', () => {
+    expect(normalizeLanguage(undefined)).toBe('el');
+    expect(normalizeLanguage('')).toBe('el');
+    expect(normalizeLanguage('klingon')).toBe('el');
+  });
+});
+
+describe('addBusinessDays', () => {
+  it('should skip weekends', () => {
+    expect(addBusinessDays('2024-03-15', 1)).toBe('2024-03-18'); // Fri → Mon
+    expect(addBusinessDays('2024-03-13', 3)).toBe('2024-03-18'); // Wed → Mon
+  });
+
+  it('should return the same day for zero days', () => {
+    expect(addBusinessDays('2024-03-16', 0)).toBe('2024-03-16');
+  });
+});
+
+describe('describeDay', () => {
+  const today = '2024-03-15'; // Friday
+
+  it('should use relative words for nearby days', () => {
+    expect(describeDay('2024-03-15', today)).toBe('today');
+    expect(describeDay('2024-03-14', today)).toBe('yesterday');
+    expect(describeDay('2024-03-16', today)).toBe('tomorrow');
+  });
+
+  it('should use weekday names within a week', () => {
+    expect(describeDay('2024-03-11', today)).toBe('on Monday');
+    expect(describeDay('2024-03-19', today)).toBe('on Tuesday');
+  });
+
+  it('should use day and month for older dates', () => {
+    expect(describeDay('2024-02-03', today)).toBe('on 3 February');
+  });
+
+  it('should describe days in Greek and Russian', () => {
+    expect(describeDay('2024-03-14', today, 'el')).toBe('χθες');
+    expect(describeDay('2024-03-16', today, 'ru')).toBe('завтра');
+    expect(describeDay('2024-03-16', '2024-03-14', 'el')).toBe('το Σάββατο');
+    expect(describeDay('2024-03-11', today, 'ru')).toBe('в понедельник');
+    expect(describeDay('2024-02-03', today, 'el')).toBe('στις 3 Φεβρουαρίου');
+    expect(describeDay('2024-02-03', today, 'ru')).toBe('3 февраля');
+  });
+});
+
+describe('parseTransitDays', () => {
+  it('should provide a default window', () => {
+    expect(parseTransitDays(undefined).default).toEqual([1, 3]);
+  });
+
+  it('should read carrier IDs and lowercase names', () => {
+    const config = parseTransitDays('{"12": [2, 4], "ACS Courier": [1, 2], "default": [3, 5]}');
+    expect(config['12']).toEqual([2, 4]);
+    expect(config['acs courier']).toEqual([1, 2]);
+    expect(config.default).toEqual([3, 5]);
+  });
+
+  it('should ignore invalid entries and invalid JSON', () => {
+    expect(parseTransitDays('{"x": "two days", "y": [1]}')).toEqual({ default: [1, 3] });
+    expect(parseTransitDays('not json')).toEqual({ default: [1, 3] });
+  });
+});
+
+describe('estimateDelivery', () => {
+  const today = '2024-03-15'; // Friday
+
+  it('should report delivered orders', () => {
+    const events = [{ stateId: 2, date: '2024-03-10' }, { stateId: 4, date: '2024-03-11' }, { stateId: 5, date: '2024-03-12' }];
+    expect(estimateDelivery(events, [1, 3], today)).toEqual({ delivered_on: '2024-03-12' });
+  });
+
+  it('should count transit days from the ship date', () => {
+    const events = [{ stateId: 2, date: '2024-03-13' }, { stateId: 4, date: '2024-03-14' }];
+    expect(estimateDelivery(events, [1, 3], today)).toEqual({ earliest: '2024-03-15', latest: '2024-03-19' });
+  });
+
+  it('should add processing time for unshipped orders', () => {
+    const events = [{ stateId: 2, date: '2024-03-15' }];
+    expect(estimateDelivery(events, [1, 2], today)).toEqual({ earliest: '2024-03-19', latest: '2024-03-20' });
+  });
+
+  it('should not promise a date in the past for late parcels', () => {
+    const events = [{ stateId: 4, date: '2024-03-01' }];
+    expect(estimateDelivery(events, [1, 3], today)).toEqual({ earliest: today, latest: today });
+  });
+
+  it('should return null for cancelled orders', () => {
+    const events = [{ stateId: 2, date: '2024-03-10' }, { stateId: 6, date: '2024-03-11' }];
+    expect(estimateDelivery(events, [1, 3], today)).toBeNull();
+  });
+});
+
+describe('phoneSearchPattern', () => {
+  it('should allow separators between the trailing digits', () => {
+    expect(phoneSearchPattern('+35799123456')).toBe('%1%2%3%4%5%6%');
+  });
+});
+
+describe('normalizePhoneNumber', () => {
+  it('should normalize Cypriot numbers in every common format', () => {
+    expect(normalizePhoneNumber('+357 99 123456')).toBe('+35799123456');
+    expect(normalizePhoneNumber('0035799123456')).toBe('+35799123456');
+    expect(normalizePhoneNumber('99123456')).toBe('+35799123456');
+    expect(normalizePhoneNumber('99-123-456')).toBe('+35799123456');
+    expect(normalizePhoneNumber('35799123456')).toBe('+35799123456');
+    expect(normalizePhoneNumber('22 123456')).toBe('+35722123456');
+  });
+
+  it('should recognize Greek national numbers', () => {
+    expect(normalizePhoneNumber('691 234 5678')).toBe('+306912345678');
+    expect(normalizePhoneNumber('2101234567')).toBe('+302101234567');
+    expect(normalizePhoneNumber('+30 691 234 5678')).toBe('+306912345678');
+  });
+
+  it('should recognize Russian numbers with trunk or country prefix', () => {
+    expect(normalizePhoneNumber('8 (916) 123-45-67')).toBe('+79161234567');
+    expect(normalizePhoneNumber('79161234567')).toBe('+79161234567');
+    expect(normalizePhoneNumber('9161234567')).toBe('+79161234567');
+    expect(normalizePhoneNumber('+7 916 123 45 67')).toBe('+79161234567');
+  });
+
+  it('should reject short or unrecognized numbers', () => {
+    expect(normalizePhoneNumber('123456')).toBeNull();
+    expect(normalizePhoneNumber('9912')).toBeNull();
+    expect(normalizePhoneNumber('+357')).toBeNull();
+    expect(normalizePhoneNumber('')).toBeNull();
+  });
+});
+
+describe('matchCustomersByPhone', () => {
+  const addresses = [
+    { id_customer: '10', phone: '99 123456', phone_mobile: '' },
+    { id_customer: '11', phone: '', phone_mobile: '+357 99123456' },
+    { id_customer: '12', phone: '24 999123456', phone_mobile: '' },
+    { id_customer: '10', phone: '', phone_mobile: '0035799123456' }
+  ];
+
+  it('should match only exact normalized numbers', () => {
+    expect(matchCustomersByPhone(addresses.slice(0, 1), '+35799123456')).toEqual([10]);
+    expect(matchCustomersByPhone(addresses.slice(2), '+35799123456')).toEqual([10]);
+  });
+
+  it('should report every distinct customer sharing a number', () => {
+    expect(matchCustomersByPhone(addresses, '+35799123456')).toEqual([10, 11]);
+  });
+
+  it('should return an empty list when nothing matches', () => {
+    expect(matchCustomersByPhone(addresses, '+35722000000')).toEqual([]);
+  });
+});
+
+describe('return numbers', () => {
+  it('should format return IDs as RMA numbers', () => {
+    expect(formatReturnNumber(123)).toBe('RE000123');
+    expect(formatReturnNumber('45')).toBe('RE000045');
+  });
+
+  it('should parse spoken RMA numbers', () => {
+    expect(parseReturnNumber('RE000123')).toBe(123);
+    expect(parseReturnNumber('R E 0 0 0 1 2 3')).toBe(123);
+    expect(parseReturnNumber('45')).toBe(45);
+    expect(parseReturnNumber('RE')).toBeNull();
+    expect(parseReturnNumber('000')).toBeNull();
+  });
+});
+
+describe('checkReturnEligibility', () => {
+  const delivered = [{ stateId: 2, date: '2024-03-01' }, { stateId: 4, date: '2024-03-02' }, { stateId: 5, date: '2024-03-04' }];
+
+  it('should accept delivered orders within the window', () => {
+    expect(checkReturnEligibility(delivered, '2024-03-10', 14)).toEqual({ eligible: true, deadline: '2024-03-18' });
+    expect(checkReturnEligibility(delivered, '2024-03-18', 14).eligible).toBe(true);
+  });
+
+  it('should reject orders past the window', () => {
+    const result = checkReturnEligibility(delivered, '2024-03-19', 14);
+    expect(result.eligible).toBe(false);
+    expect(result.message).toContain('14-day');
+  });
+
+  it('should explain the rejection in the caller\'s language', () => {
+    expect(checkReturnEligibility(delivered, '2024-03-19', 14, 'el').message).toContain('14 ημερών');
+    expect(checkReturnEligibility(delivered.slice(0, 2), '2024-03-10', 14, 'ru').message).toContain('не доставлен');
+  });
+
+  it('should reject orders that are not delivered', () => {
+    const shipped = delivered.slice(0, 2);
+    expect(checkReturnEligibility(shipped, '2024-03-10', 14).eligible).toBe(false);
+  });
+
+  it('should reject refunded orders', () => {
+    const refunded = [...delivered, { stateId: 7, date: '2024-03-06' }];
+    expect(checkReturnEligibility(refunded, '2024-03-10', 14).eligible).toBe(false);
+  });
+});
+
+describe('selectReturnRows', () => {
+  const rows = [
+    { id: '1', product_name: 'LG UltraGear 27GP850 Monitor', product_quantity: '1' },
+    { id: '2', product_name: 'Logitech G502 Mouse', product_quantity: '1' }
+  ];
+
+  it('should select the only row when nothing is specified', () => {
+    expect(selectReturnRows(rows.slice(0, 1))).toEqual(rows.slice(0, 1));
+  });
+
+  it('should ask for a choice when several rows and nothing specified', () => {
+    expect(selectReturnRows(rows)).toBeNull();
+    expect(selectReturnRows(rows, [''])).toBeNull();
+  });
+
+  it('should select rows by spoken product names', () => {
+    expect(selectReturnRows(rows, ['the monitor'])).toEqual([rows[0]]);
+    expect(selectReturnRows(rows, ['monitor', 'logitech mouse'])).toEqual(rows);
+  });
+
+  it('should return an empty list when nothing matches', () => {
+    expect(selectReturnRows(rows, ['keyboard'])).toEqual([]);
+  });
+});
+
+describe('matchVariants', () => {
+  const labels = ['Black 1TB', 'Black 2TB', 'White 1TB'];
+
+  it('should match a fully described variant', () => {
+    expect(matchVariants(labels, 'the 1TB black one')).toEqual([0]);
+    expect(matchVariants(labels, 'white, 1 tb')).toEqual([2]);
+  });
+
+  it('should return every candidate when ambiguous', () => {
+    expect(matchVariants(labels, 'black')).toEqual([0, 1]);
+    expect(matchVariants(labels, '1TB')).toEqual([0, 2]);
+  });
+
+  it('should return nothing when no option matches', () => {
+    expect(matchVariants(labels, 'red')).toEqual([]);
+    expect(matchVariants(labels, '')).toEqual([]);
+  });
+
+  it('should ignore case and separators', () => {
+    expect(matchVariants(['Space Gray / 16GB', 'Silver / 8GB'], 'SILVER 8 GB')).toEqual([1]);
+  });
+});
+
+describe('computeConsumerPrice', () => {
+  const now = '2024-03-15 10:00:00';
+  const rule = (overrides: Record<string, string>) => ({
+    id_product: '1',
+    id_group: '0',
+    id_country: '0',
+    id_currency: '0',
+    id_shop: '0',
+    from_quantity: '1',
+    price: '-1',
+    reduction: '0',
+    reduction_type: 'amount' as const,
+    reduction_tax: '1',
+    from: '0000-00-00 00:00:00',
+    to: '0000-00-00 00:00:00',
+    ...overrides
+  });
+
+  it('should add VAT to the base price', () => {
+    expect(computeConsumerPrice(100, 19, [], now)).toEqual({ price: 119 });
+    expect(computeConsumerPrice(31.25, 19, [], now)).toEqual({ price: 37.19 });
+  });
+
+  it('should apply percentage reductions with the regular price as "was"', () => {
+    const sale = rule({ reduction: '0.10', reduction_type: 'percentage' });
+    expect(computeConsumerPrice(100, 19, [sale], now)).toEqual({ price: 107.1, was: 119 });
+  });
+
+  it('should apply tax-included and tax-excluded amount reductions', () => {
+    expect(computeConsumerPrice(100, 19, [rule({ reduction: '20' })], now)).toEqual({ price: 99, was: 119 });
+    expect(computeConsumerPrice(100, 19, [rule({ reduction: '20', reduction_tax: '0' })], now)).toEqual({ price: 95.2, was: 119 });
+  });
+
+  it('should use a fixed specific price as the new base', () => {
+    expect(computeConsumerPrice(100, 19, [rule({ price: '80' })], now)).toEqual({ price: 95.2, was: 119 });
+  });
+
+  it('should ignore promotions outside their date window or for bulk quantities', () => {
+    const expired = rule({ reduction: '20', to: '2024-03-01 00:00:00' });
+    const future = rule({ reduction: '20', from: '2024-04-01 00:00:00' });
+    const bulk = rule({ reduction: '20', from_quantity: '5' });
+    expect(computeConsumerPrice(100, 19, [expired, future, bulk], now)).toEqual({ price: 119 });
+  });
+
+  it('should pick the best active promotion', () => {
+    const small = rule({ reduction: '0.05', reduction_type: 'percentage' });
+    const big = rule({ reduction: '30' });
+    expect(computeConsumerPrice(100, 19, [small, big], now)).toEqual({ price: 89, was: 119 });
+  });
+  it('should only apply promotions for Cyprus, euros and our shop', () => {
+    const scope = { countryId: 56, currencyId: 1, shopId: 1 };
+    const greece = rule({ reduction: '20', id_country: '86' });
+    const dollars = rule({ reduction: '20', id_currency: '2' });
+    const otherShop = rule({ reduction: '20', id_shop: '2' });
+    const cyprus = rule({ reduction: '10', id_country: '56', id_currency: '1', id_shop: '1' });
+    expect(computeConsumerPrice(100, 19, [greece, dollars, otherShop], now, scope)).toEqual({ price: 119 });
+    expect(computeConsumerPrice(100, 19, [greece, cyprus], now, scope)).toEqual({ price: 109, was: 119 });
+  });
+
+  it('should only apply promotions valid everywhere when the scope is unknown', () => {
+    expect(computeConsumerPrice(100, 19, [rule({ reduction: '10', id_country: '56' })], now)).toEqual({ price: 119 });
+  });
+});
+
+describe('detectBrand', () => {
+  it('should find the first known brand in a product name', () => {
+    expect(detectBrand('ASUS TUF Gaming GeForce RTX 4070')).toBe('asus');
+    expect(detectBrand('Logitech G502 HERO Mouse')).toBe('logitech');
+  });
+
+  it('should return null when no brand is known', () => {
+    expect(detectBrand('Generic USB-C Cable 1m')).toBeNull();
+  });
+});
+
+describe('rankAlternatives', () => {
+  const candidates = [
+    { id: 1, name: 'MSI Monitor 27', price: 210, quantity: 4 },
+    { id: 2, name: 'LG Monitor 27', price: 260, quantity: 2 },
+    { id: 3, name: 'LG Monitor 24', price: 150, quantity: 0 },
+    { id: 4, name: 'AOC Monitor 27', price: 195, quantity: 9 },
+    { id: 5, name: 'LG Monitor 32', price: 320, quantity: 1 }
+  ];
+
+  it('should only include in-stock products', () => {
+    const ranked = rankAlternatives({ price: 200, brand: null }, candidates, 10);
+    expect(ranked.map(c => c.id)).not.toContain(3);
+  });
+
+  it('should prefer the same brand, then the closest price', () => {
+    const ranked = rankAlternatives({ price: 200, brand: 'lg' }, candidates);
+    expect(ranked.map(c => c.id)).toEqual([2, 5, 4]);
+  });
+
+  it('should rank by price closeness without a brand', () => {
+    const ranked = rankAlternatives({ price: 200, brand: null }, candidates);
+    expect(ranked.map(c => c.id)).toEqual([4, 1, 2]);
+  });
+
+  it('should cap results at three by default', () => {
+    expect(rankAlternatives({ price: 200, brand: null }, candidates)).toHaveLength(3);
+  });
+});
+
+describe('stripHtml', () => {
+  it('should remove tags and decode common entities', () => {
+    expect(stripHtml('<p>Fast &amp; quiet</p><ul><li>16GB&nbsp;RAM</li></ul>')).toBe('Fast & quiet 16GB RAM');
+  });
+
+  it('should handle empty input', () => {
+    expect(stripHtml('')).toBe('');
+  });
+});
+
+describe('answerSpecQuestion', () => {
+  const specs = [
+    { name: 'Processor', value: 'Intel Core i7-13700H' },
+    { name: 'RAM', value: '16GB DDR5' },
+    { name: 'Storage', value: '1TB SSD' },
+    { name: 'Keyboard backlight', value: 'Yes' },
+    { name: 'Screen size', value: '15.6 inch' }
+  ];
+
+  it('should match feature names directly', () => {
+    expect(answerSpecQuestion(specs, 'how much RAM does it have?')?.name).toBe('RAM');
+    expect(answerSpecQuestion(specs, 'what processor is in it')?.name).toBe('Processor');
+  });
+
+  it('should use synonyms for spoken spec words', () => {
+    expect(answerSpecQuestion(specs, 'how much memory')?.name).toBe('RAM');
+    expect(answerSpecQuestion(specs, 'does this laptop have a backlit keyboard?')?.name).toBe('Keyboard backlight');
+    expect(answerSpecQuestion(specs, 'how big is the display')?.name).toBe('Screen size');
+  });
+
+  it('should understand Greek and Russian spec words', () => {
+    const greekSpecs = [
+      { name: 'Μνήμη RAM', value: '16GB DDR5' },
+      { name: 'Οθόνη', value: '15.6 ίντσες' }
+    ];
+    expect(answerSpecQuestion(greekSpecs, 'πόση μνήμη έχει;')?.name).toBe('Μνήμη RAM');
+    expect(answerSpecQuestion(greekSpecs, 'τι οθόνη έχει')?.name).toBe('Οθόνη');
+    expect(answerSpecQuestion(specs, 'πόση μνήμη έχει;')?.name).toBe('RAM');
+    expect(answerSpecQuestion(specs, 'сколько памяти')?.name).toBe('RAM');
+    expect(answerSpecQuestion(specs, 'какой экран')?.name).toBe('Screen size');
+    expect(answerSpecQuestion([{ name: 'Экран', value: '15.6"' }, { name: 'Память', value: '16 ГБ' }], 'память')?.name).toBe('Память');
+  });
+
+  it('should fall back to matching values', () => {
+    expect(answerSpecQuestion(specs, 'is it ddr5')?.name).toBe('RAM');
+  });
+
+  it('should return null when nothing matches', () => {
+    expect(answerSpecQuestion(specs, 'what colour is it')).toBeNull();
+    expect(answerSpecQuestion([], 'how much ram')).toBeNull();
+  });
+});
+
+describe('diffSpecs', () => {
+  const rtx5070 = [
+    { name: 'GPU', value: 'GeForce RTX 5070' },
+    { name: 'Memory', value: '12GB GDDR7' },
+    { name: 'Boost clock', value: '2512 MHz' },
+    { name: 'Outputs', value: '3x DisplayPort, 1x HDMI' }
+  ];
+  const rtx5070ti = [
+    { name: 'GPU', value: 'GeForce RTX 5070 Ti' },
+    { name: 'Memory', value: '16GB GDDR7' },
+    { name: 'Boost clock', value: '2452 MHz' },
+    { name: 'outputs', value: '3x DisplayPort, 1x HDMI' },
+    { name: 'Length', value: '304 mm' }
+  ];
+
+  it('should list only specs whose values differ', () => {
+    const diff = diffSpecs([rtx5070, rtx5070ti]);
+    expect(diff.map(d => d.name)).toEqual(['GPU', 'Memory', 'Boost clock']);
+    expect(diff[1].values).toEqual(['12GB GDDR7', '16GB GDDR7']);
+  });
+
+  it('should skip specs missing from any product', () => {
+    expect(diffSpecs([rtx5070, rtx5070ti]).map(d => d.name)).not.toContain('Length');
+  });
+
+  it('should compare three products', () => {
+    const third = [{ name: 'Memory', value: '12gb gddr7' }];
+    expect(diffSpecs([rtx5070, rtx5070ti, third]).map(d => d.name)).toEqual(['Memory']);
+  });
+
+  it('should cap the number of differences', () => {
+    expect(diffSpecs([rtx5070, rtx5070ti], 2)).toHaveLength(2);
+  });
+
+  it('should need at least two products', () => {
+    expect(diffSpecs([rtx5070])).toEqual([]);
+  });
+});
+
+describe('parseSearchFilters', () => {
+  it('should extract a maximum price and keep the keywords', () => {
+    const parsed = parseSearchFilters('gaming laptop under 1000 euros');
+    expect(parsed.filters.max_price).toBe(1000);
+    expect(parsed.query).toBe('gaming laptop');
+  });
+
+  it('should extract a price range in either order', () => {
+    expect(parseSearchFilters('monitor between €500 and €300').filters).toMatchObject({ min_price: 300, max_price: 500 });
+  });
+
+  it('should extract a minimum price', () => {
+    expect(parseSearchFilters('graphics card over 600').filters.min_price).toBe(600);
+  });
+
+  it('should read thousands separators', () => {
+    expect(parseSearchFilters('laptop under 1,500 euros').filters.max_price).toBe(1500);
+  });
+
+  it('should not treat spec sizes as prices', () => {
+    const parsed = parseSearchFilters('monitor under 27 inch');
+    expect(parsed.filters.max_price).toBeUndefined();
+    expect(parsed.query).toBe('monitor under 27 inch');
+  });
+
+  it('should detect sort order', () => {
+    expect(parseSearchFilters('cheapest 27 inch monitor')).toEqual({ query: '27 inch monitor', filters: { sort: 'price_asc' } });
+    expect(parseSearchFilters('most expensive keyboard').filters.sort).toBe('price_desc');
+    expect(parseSearchFilters('most popular headset').filters.sort).toBe('popularity');
+  });
+
+  it('should detect in-stock requests', () => {
+    const parsed = parseSearchFilters('rtx 5070 in stock');
+    expect(parsed.filters.in_stock_only).toBe(true);
+    expect(parsed.query).toBe('rtx 5070');
+  });
+
+  it('should parse Greek phrases', () => {
+    const parsed = parseSearchFilters('φθηνότερο λάπτοπ κάτω από 800 ευρώ');
+    expect(parsed.filters).toMatchObject({ max_price: 800, sort: 'price_asc' });
+    expect(parsed.query).toBe('λάπτοπ');
+  });
+
+  it('should parse Russian phrases', () => {
+    const parsed = parseSearchFilters('ноутбук до 900 евро в наличии');
+    expect(parsed.filters).toMatchObject({ max_price: 900, in_stock_only: true });
+    expect(parsed.query).toBe('ноутбук');
+  });
+
+  it('should leave plain queries untouched', () => {
+    expect(parseSearchFilters('logitech mx master 3s')).toEqual({ query: 'logitech mx master 3s', filters: {} });
+  });
+});
+
+describe('describeSearchFilters', () => {
+  it('should describe price range, category and stock', () => {
+    expect(describeSearchFilters({ min_price: 300, max_price: 500, category: 'monitors', in_stock_only: true }))
+      .toBe('between €300 and €500, in monitors, in stock');
+  });
+
+  it('should describe a single bound', () => {
+    expect(describeSearchFilters({ max_price: 1000 })).toBe('under €1000');
+  });
+});
+
+describe('matchCategory', () => {
+  const nodes = [
+    { id: 2, parentId: 1, names: [{ languageId: 1, value: 'Home' }] },
+    { id: 10, parentId: 2, names: [{ languageId: 1, value: 'Monitors' }, { languageId: 2, value: 'Οθόνες' }] },
+    { id: 11, parentId: 10, names: [{ languageId: 1, value: 'Gaming Monitors' }, { languageId: 2, value: 'Οθόνες Gaming' }] },
+    { id: 20, parentId: 2, names: [{ languageId: 1, value: 'Headphones & Headsets' }, { languageId: 3, value: 'Наушники' }] }
+  ];
+
+  it('should match singular and plural names', () => {
+    expect(matchCategory(nodes, 'monitor')).toEqual([10]);
+  });
+
+  it('should prefer the closest name', () => {
+    expect(matchCategory(nodes, 'gaming monitors')).toEqual([11]);
+  });
+
+  it('should match names in other languages', () => {
+    expect(matchCategory(nodes, 'οθόνη')).toEqual([10]);
+    expect(matchCategory(nodes, 'наушник')).toEqual([20]);
+    expect(matchCategory(nodes, 'headset')).toEqual([20]);
+  });
+
+  it('should never match the root categories', () => {
+    expect(matchCategory(nodes, 'home')).toEqual([]);
+  });
+
+  it('should return nothing for unknown categories', () => {
+    expect(matchCategory(nodes, 'printers')).toEqual([]);
+  });
+});
+
+describe('categoryWithDescendants', () => {
+  it('should include all subcategories', () => {
+    const nodes = [
+      { id: 10, parentId: 2, names: [] },
+      { id: 11, parentId: 10, names: [] },
+      { id: 12, parentId: 11, names: [] },
+      { id: 20, parentId: 2, names: [] }
+    ];
+    expect([...categoryWithDescendants(nodes, [10])].sort()).toEqual([10, 11, 12]);
+  });
+});
+
+describe('summarizeCategoryPrices', () => {
+  const nodes = [
+    { id: 20, parentId: 2, names: [] },
+    { id: 21, parentId: 20, names: [] },
+    { id: 22, parentId: 21, names: [] },
+    { id: 23, parentId: 20, names: [] },
+    { id: 24, parentId: 20, names: [] }
+  ];
+
+  it('should count products and price ranges per branch', () => {
+    const summary = summarizeCategoryPrices(nodes, [21, 23, 24], [
+      { categoryId: 21, amount: 49.9 },
+      { categoryId: 22, amount: 129 },
+      { categoryId: 23, amount: 19.99 }
+    ]);
+    expect(summary.get(21)).toEqual({ count: 2, min: 49.9, max: 129 });
+    expect(summary.get(23)).toEqual({ count: 1, min: 19.99, max: 19.99 });
+  });
+
+  it('should skip empty subcategories and unpriced products', () => {
+    const summary = summarizeCategoryPrices(nodes, [24], [{ categoryId: 24, amount: 0 }]);
+    expect(summary.has(24)).toBe(false);
+  });
+});
+
+describe('correctSpeechQuery', () => {
+  describe('spelled-out numbers', () => {
+    it('should join GPU-style number pairs', () => {
+      expect(correctSpeechQuery('fifty seventy')).toBe('5070');
+      expect(correctSpeechQuery('forty ninety ti')).toBe('4090 ti');
+    });
+
+    it('should combine compound numbers', () => {
+      expect(correctSpeechQuery('twenty seven inch monitor')).toBe('27 inch monitor');
+      expect(correctSpeechQuery('twenty-seven inch')).toBe('27 inch');
+      expect(correctSpeechQuery('twelve hundred')).toBe('1200');
+      expect(correctSpeechQuery('two thousand five hundred')).toBe('2500');
+    });
+
+    it('should concatenate digit-by-digit numbers', () => {
+      expect(correctSpeechQuery('one two eight gigabytes')).toBe('128 gigabytes');
+    });
+
+    it('should handle Greek and Russian numbers', () => {
+      expect(correctSpeechQuery('πενήντα εβδομήντα')).toBe('5070');
+      expect(correctSpeechQuery('пятьдесят семьдесят')).toBe('5070');
+      expect(correctSpeechQuery('πεντακόσια δώδεκα')).toBe('512');
+    });
+
+    it('should keep a lone "one"', () => {
+      expect(correctSpeechQuery('the black one')).toBe('the black one');
+    });
+  });
+
+  describe('letter-by-letter acronyms', () => {
+    it('should join spoken letter names', () => {
+      expect(correctSpeechQuery('are tee ex fifty seventy')).toBe('rtx 5070');
+      expect(correctSpeechQuery('see pee you cooler')).toBe('cpu cooler');
+      expect(correctSpeechQuery('r t x 4080')).toBe('rtx 4080');
+    });
+
+    it('should join Greek and Russian letter names', () => {
+      expect(correctSpeechQuery('αρ τι εξ')).toBe('rtx');
+      expect(correctSpeechQuery('эр тэ икс')).toBe('rtx');
+    });
+
+    it('should leave ordinary words that sound like letters', () => {
+      expect(correctSpeechQuery('are you open')).toBe('are you open');
+    });
+  });
+
+  describe('Greek and Cyrillic brand names', () => {
+    it('should transliterate brands', () => {
+      expect(correctSpeechQuery('σάμσουνγκ')).toBe('samsung');
+      expect(correctSpeechQuery('самсунг')).toBe('samsung');
+      expect(correctSpeechQuery('асус')).toBe('asus');
+    });
+
+    it('should match brands spelled by sound', () => {
+      expect(correctSpeechQuery('λότζιτεκ ποντίκι')).toBe('logitech ποντίκι');
+      expect(correctSpeechQuery('логитек')).toBe('logitech');
+    });
+
+    it('should leave other Greek and Russian words alone', () => {
+      expect(correctSpeechQuery('οθόνη για gaming')).toBe('οθόνη για gaming');
+      expect(correctSpeechQuery('ноутбук')).toBe('ноутбук');
+    });
+  });
+
+  describe('edit-distance fallback', () => {
+    it('should snap near-miss brand spellings', () => {
+      expect(correctSpeechQuery('logitec mouse')).toBe('logitech mouse');
+      expect(correctSpeechQuery('lenova laptop')).toBe('lenovo laptop');
+    });
+
+    it('should merge split model names', () => {
+      expect(correctSpeechQuery('rise en seven')).toBe('ryzen 7');
+      expect(correctSpeechQuery('giga bite')).toBe('gigabyte');
+    });
+
+    it('should not change ordinary words', () => {
+      expect(correctSpeechQuery('color monitor')).toBe('color monitor');
+      expect(correctSpeechQuery('gaming laptop')).toBe('gaming laptop');
+      expect(correctSpeechQuery('wireless keyboard')).toBe('wireless keyboard');
+    });
+  });
+});
+
+describe('searchCatalogIndex', () => {
+  const index = {
+    builtAt: Date.now(),
+    products: [
+      { id: 1, names: { 1: 'ASUS ROG Strix GeForce RTX 5070 Ti OC 16GB' }, price: 999, brand: 'asus', category: 10, quantity: 2 },
+      { id: 2, names: { 1: 'MSI GeForce RTX 5070 Ventus 12GB' }, price: 699, brand: 'msi', category: 10, quantity: 0 },
+      { id: 3, names: { 1: 'HDMI Cable for ASUS monitors' }, price: 9.9, brand: 'asus', category: 30, quantity: 40 },
+      { id: 4, names: { 1: 'Logitech G Pro Headset', 2: 'Ακουστικά Logitech G Pro' }, price: 129, brand: 'logitech', category: 20, quantity: 5 }
+    ]
+  };
+
+  it('should require every term to match', () => {
+    expect(searchCatalogIndex(index, ['rtx', '5070']).map(p => p.id)).toEqual([2, 1]);
+    expect(searchCatalogIndex(index, ['rtx', '5090'])).toEqual([]);
+  });
+
+  it('should rank exact words above prefixes, then shorter names', () => {
+    expect(searchCatalogIndex(index, ['asus']).map(p => p.id)).toEqual([3, 1]);
+    expect(searchCatalogIndex(index, ['monitor']).map(p => p.id)).toEqual([3]);
+  });
+
+  it('should match names in any language', () => {
+    expect(searchCatalogIndex(index, ['ακουστικά']).map(p => p.id)).toEqual([4]);
+  });
+
+  it('should not prefix-match very short terms', () => {
+    expect(searchCatalogIndex(index, ['gef'])).toHaveLength(2);
+    expect(searchCatalogIndex(index, ['ge'])).toEqual([]);
+  });
+
+  it('should return nothing without terms', () => {
+    expect(searchCatalogIndex(index, [])).toEqual([]);
+  });
+});
+
+describe('scoreSearchResult', () => {
+  const rank = (names: string[], terms: string[]) =>
+    [...names].sort((a, b) => scoreSearchResult(b, terms) - scoreSearchResult(a, terms));
+
+  it('should rank an exact model number above a partial or different one', () => {
+    expect(rank(['MSI RTX 5070 Ti Ventus', 'MSI RTX 5080 Ventus', 'MSI RTX 5070 Ventus'], ['rtx', '5070']))
+      .toEqual(['MSI RTX 5070 Ti Ventus', 'MSI RTX 5070 Ventus', 'MSI RTX 5080 Ventus']);
+    expect(scoreSearchResult('RTX 5070Ti', ['5070'])).toBeLessThan(scoreSearchResult('RTX 5070', ['5070']));
+  });
+
+  it('should prefer the product brand over a compatibility mention', () => {
+    const terms = ['asus', 'monitor'];
+    expect(scoreSearchResult('ASUS ProArt 27 Monitor', terms))
+      .toBeGreaterThan(scoreSearchResult('HDMI cable for ASUS monitor', terms));
+  });
+
+  it('should treat a brand deep in the name as a mention', () => {
+    const terms = ['asus', 'laptop'];
+    expect(scoreSearchResult('Laptop sleeve 15 inch black asus', terms))
+      .toBeLessThan(scoreSearchResult('Asus Vivobook 15 laptop', terms));
+  });
+
+  it('should penalise a missing brand instead of filtering it out', () => {
+    const terms = ['logitech', 'mouse'];
+    expect(scoreSearchResult('Razer Viper mouse', terms)).toBeLessThan(0);
+    expect(scoreSearchResult('Logitech G502 mouse', terms)).toBeGreaterThan(0);
+  });
+
+  it('should scale with term coverage', () => {
+    const terms = ['wireless', 'gaming', 'headset'];
+    expect(scoreSearchResult('Wireless Gaming Headset', terms))
+      .toBeGreaterThan(scoreSearchResult('Gaming Headset', terms));
+    expect(scoreSearchResult('Gaming Headsets', ['headset'])).toBe(30);
+  });
+
+  it('should reward a matching memory spec and penalise a different size', () => {
+    const terms = ['ram', '16gb'];
+    expect(scoreSearchResult('Kingston Fury 16 GB DDR5 RAM', terms))
+      .toBeGreaterThan(scoreSearchResult('Kingston Fury RAM', terms));
+    expect(scoreSearchResult('Kingston Fury 8GB DDR5 RAM', terms))
+      .toBeLessThan(scoreSearchResult('Kingston Fury RAM', terms));
+  });
+
+  it('should break ties in favour of products in stock', () => {
+    expect(scoreSearchResult('Logitech G Pro', ['logitech'], 3))
+      .toBeGreaterThan(scoreSearchResult('Logitech G Pro', ['logitech'], 0));
+    expect(scoreSearchResult('Logitech G Pro', ['logitech'])).toBe(scoreSearchResult('Logitech G Pro', ['logitech'], 0));
+  });
+
+  it('should score nothing without terms', () => {
+    expect(scoreSearchResult('Anything', [])).toBe(0);
+  });
+});
+
+describe('priceToWords', () => {
+  it('should say English prices the way callers do', () => {
+    expect(priceToWords(37.2)).toBe('thirty-seven euros twenty');
+    expect(priceToWords(1299)).toBe('twelve hundred ninety-nine euros');
+    expect(priceToWords(2000)).toBe('two thousand euros');
+    expect(priceToWords(1)).toBe('one euro');
+    expect(priceToWords(0.5)).toBe('fifty cents');
+  });
+
+  it('should say Greek prices', () => {
+    expect(priceToWords(37.2, 'el')).toBe('τριάντα επτά ευρώ είκοσι');
+    expect(priceToWords(100, 'el')).toBe('εκατό ευρώ');
+    expect(priceToWords(101, 'el')).toBe('εκατόν ένα ευρώ');
+    expect(priceToWords(1299, 'el')).toBe('χίλια διακόσια ενενήντα εννέα ευρώ');
+    expect(priceToWords(3400, 'el')).toBe('τρεις χιλιάδες τετρακόσια ευρώ');
+  });
+
+  it('should say Russian prices with plural agreement', () => {
+    expect(priceToWords(37.2, 'ru')).toBe('тридцать семь евро двадцать центов');
+    expect(priceToWords(2500, 'ru')).toBe('две тысячи пятьсот евро');
+    expect(priceToWords(1.21, 'ru')).toBe('один евро двадцать один цент');
+    expect(priceToWords(0.03, 'ru')).toBe('три цента');
+  });
+});
+
+describe('parseSpokenReference', () => {
+  it('should read NATO phonetic words and "as in" explanations', () => {
+    expect(parseSpokenReference('kilo x-ray bravo delta echo foxtrot golf hotel india')[0]).toBe('KXBDEFGHI');
+    expect(parseSpokenReference('K as in kilo, X, B, D, E, F, G, H, I')[0]).toBe('KXBDEFGHI');
+  });
+
+  it('should join references spoken in groups or with separators', () => {
+    expect(parseSpokenReference('KXB-DEF GHI')[0]).toBe('KXBDEFGHI');
+    expect(parseSpokenReference('kxb dash def dash ghi')[0]).toBe('KXBDEFGHI');
+  });
+
+  it('should map Greek and Cyrillic look-alike letters to Latin', () => {
+    expect(parseSpokenReference('ΚΧΒΑΕΤΜΝΟ')[0]).toBe('KXBAETMNO');
+    expect(parseSpokenReference('КХВАЕТМНО')[0]).toBe('KXBAETMHO');
+  });
+
+  it('should offer the sound-alike reading as a later candidate', () => {
+    const candidates = parseSpokenReference('КХВАЕТМНО');
+    expect(candidates).toContain('KXBAETMNO');
+    expect(candidates.indexOf('KXBAETMNO')).toBeGreaterThan(0);
+  });
+
+  it('should understand Greek letter names', () => {
+    expect(parseSpokenReference('ρο άλφα κάπα χι ήτα σίγμα ταυ δέλτα ωμέγα')[0]).toBe('PAKXHSTDO');
+  });
+
+  it('should try letters for digits that look like them', () => {
+    expect(parseSpokenReference('KXB0EFGHI')).toEqual(['KXB0EFGHI', 'KXBOEFGHI']);
+  });
+
+  it('should return no candidates when the length is wrong', () => {
+    expect(parseSpokenReference('KXB DEF')).toEqual([]);
+    expect(parseSpokenReference('')).toEqual([]);
+  });
+});
+
+describe('pronounceResult', () => {
+  const terms = { ASUS: 'έισους' };
+
+  it('should rewrite spoken text in place', () => {
+    expect(pronounceResult({ message: 'The ASUS is in stock', url: 'https://x/ASUS' }, terms))
+      .toEqual({ message: 'The έισους is in stock', url: 'https://x/ASUS' });
+  });
+
+  it('should keep names the agent passes back to tools and add a spoken copy', () => {
+    expect(pronounceResult({ products: [{ name: 'ASUS ROG Strix', id: 1 }, { name: 'MSI Katana', id: 2 }] }, terms))
+      .toEqual({ products: [{ name: 'ASUS ROG Strix', name_spoken: 'έισους ROG Strix', id: 1 }, { name: 'MSI Katana', id: 2 }] });
+  });
+});
+
+describe('applyPronunciation', () => {
+  const terms = { ASUS: 'έισους', NZXT: 'εν ζεντ εξ τι', 'Western Digital': 'γουέστερν ντίτζιταλ', Western: 'γουέστερν' };
+
+  it('should replace whole-word terms in any case', () => {
+    expect(applyPronunciation('ASUS TUF Gaming', terms)).toBe('έισους TUF Gaming');
+    expect(applyPronunciation('Asus and NZXT', terms)).toBe('έισους and εν ζεντ εξ τι');
+  });
+
+  it('should prefer the longest matching term', () => {
+    expect(applyPronunciation('Western Digital Blue', terms)).toBe('γουέστερν ντίτζιταλ Blue');
+  });
+
+  it('should not replace terms inside other words', () => {
+    expect(applyPronunciation('ASUSTOR NAS', terms)).toBe('ASUSTOR NAS');
+  });
+
+  it('should leave prices untouched', () => {
+    expect(applyPronunciation('ASUS monitor for €37.20', { ...terms, '37': 'thirty-seven', '20': 'twenty' }))
+      .toBe('έισους monitor for €37.20');
+  });
+
+  it('should leave order references untouched', () => {
+    expect(applyPronunciation('Order KXBDEFGHI is on its way', { KXBDEFGHI: 'oops', Order: 'Ordine' }))
+      .toBe('Ordine KXBDEFGHI is on its way');
+  });
+
+  it('should return the text unchanged for an empty lexicon', () => {
+    expect(applyPronunciation('ASUS', {})).toBe('ASUS');
+  });
+});
+
+describe('formatTicketNumber', () => {
+  it('should pad the thread ID', () => {
+    expect(formatTicketNumber(123)).toBe('TK000123');
+    expect(formatTicketNumber('4567890')).toBe('TK4567890');
+  });
+});
+
+describe('parseSupportContacts', () => {
+  it('should default to the customer service contact', () => {
+    expect(parseSupportContacts(undefined)).toEqual({ default: 2 });
+  });
+
+  it('should read contact IDs per category', () => {
+    const config = parseSupportContacts('{"hardware_fault": 4, "Billing": 3}');
+    expect(config.hardware_fault).toBe(4);
+    expect(config.billing).toBe(3);
+    expect(config.default).toBe(2);
+  });
+
+  it('should ignore invalid entries and invalid JSON', () => {
+    expect(parseSupportContacts('{"delivery": "sales", "return": -1}')).toEqual({ default: 2 });
+    expect(parseSupportContacts('not json')).toEqual({ default: 2 });
+  });
+});
+
+describe('parseTicketCategory', () => {
+  it('should accept known categories only', () => {
+    expect(parseTicketCategory('delivery')).toBe('delivery');
+    expect(parseTicketCategory('constructor')).toBe('other');
+    expect(parseTicketCategory('toString')).toBe('other');
+    expect(parseTicketCategory(undefined)).toBe('other');
+  });
+});
+
+describe('buildTicketSummary', () => {
+  it('should lay out category, priority, contact and the issue', () => {
+    const summary = buildTicketSummary({
+      category: 'hardware_fault',
+      priority: 'high',
+      issue: ' Laptop won\'t power on ',
+      stepsTried: 'Tried another outlet and charger',
+      orderReference: 'KXBDEFGHI',
+      email: 'maria@example.com',
+      language: 'el',
+      callId: 'call_123'
+    });
+    expect(summary).toBe(
+      'Category: Hardware fault\nPriority: high\nOrder: KXBDEFGHI\nEmail: maria@example.com\nCaller language: el\nCall ID: call_123\n\n' +
+      'Issue:\nLaptop won\'t power on\n\n' +
+      'Already tried:\nTried another outlet and charger\n\n' +
+      '[Created via Alexis Voice Agent]'
+    );
+  });
+
+  it('should leave out missing details', () => {
+    const summary = buildTicketSummary({ category: 'billing', priority: 'normal', issue: 'Charged twice', phone: '+35799123456', language: 'en' });
+    expect(summary).toBe('Category: Billing\nPriority: normal\nPhone: +35799123456\nCaller language: en\n\nIssue:\nCharged twice\n\n[Created via Alexis Voice Agent]');
+  });
+});
+
+describe('parseTicketNumber', () => {
+  it('should read spoken and formatted ticket numbers', () => {
+    expect(parseTicketNumber('TK000123')).toBe(123);
+    expect(parseTicketNumber('T K 1 2 3')).toBe(123);
+    expect(parseTicketNumber('45')).toBe(45);
+  });
+
+  it('should reject numbers without digits', () => {
+    expect(parseTicketNumber('TK')).toBeNull();
+    expect(parseTicketNumber('TK000000')).toBeNull();
+  });
+});
+
+describe('latestStaffReplies', () => {
+  const message = (id: string, thread: string, employee: string, text: string, date: string, isPrivate = '0') =>
+    ({ id, id_customer_thread: thread, id_employee: employee, message: text, private: isPrivate, date_add: date });
+
+  it('should pick the latest public staff reply per thread', () => {
+    const replies = latestStaffReplies([
+      message('1', '10', '0', 'My laptop is broken.', '2024-03-10 09:00:00'),
+      message('2', '10', '3', 'We received your laptop.', '2024-03-11 10:00:00'),
+      message('3', '10', '3', '<p>The repair is done.</p> You can collect it tomorrow. Bring your receipt.', '2024-03-12 11:00:00'),
+      message('4', '10', '3', 'Internal: waiting for parts', '2024-03-13 12:00:00', '1'),
+      message('5', '11', '0', 'Where is my refund?', '2024-03-12 08:00:00')
+    ]);
+    expect(replies.get(10)).toEqual({ date: '2024-03-12', text: 'The repair is done. You can collect it tomorrow.' });
+    expect(replies.has(11)).toBe(false);
+  });
+});
+
+describe('isNearDuplicateTicket', () => {
+  it('should treat a reworded or extended message as the same issue', () => {
+    expect(isNearDuplicateTicket('Laptop won\'t turn on', 'The laptop won\'t turn on at all, tried another charger')).toBe(true);
+    expect(isNearDuplicateTicket('LAPTOP  won\'t turn on', 'laptop won\'t turn on')).toBe(true);
+  });
+
+  it('should treat a different problem as a new issue', () => {
+    expect(isNearDuplicateTicket('My order hasn\'t arrived', 'My order was charged twice')).toBe(false);
+    expect(isNearDuplicateTicket('Laptop won\'t turn on', 'Refund for the mouse')).toBe(false);
+  });
+
+  it('should compare Greek messages without accents', () => {
+    expect(isNearDuplicateTicket('Το λάπτοπ δεν ανάβει', 'το λαπτοπ δεν αναβει καθόλου')).toBe(true);
+  });
+
+  it('should not match empty messages', () => {
+    expect(isNearDuplicateTicket('', 'Laptop broken')).toBe(false);
+  });
+});
+
+describe('orthodoxEaster', () => {
+  it('should compute Orthodox Easter Sunday', () => {
+    expect(orthodoxEaster(2024)).toBe('2024-05-05');
+    expect(orthodoxEaster(2025)).toBe('2025-04-20');
+    expect(orthodoxEaster(2026)).toBe('2026-04-12');
+  });
+});
+
+describe('cyprusHolidays', () => {
+  it('should include fixed and Easter-based public holidays', () => {
+    const holidays = cyprusHolidays(2024);
+    expect(holidays.has('2024-03-25')).toBe(true); // Greek Independence Day
+    expect(holidays.has('2024-10-01')).toBe(true); // Cyprus Independence Day
+    expect(holidays.has('2024-03-18')).toBe(true); // Green Monday
+    expect(holidays.has('2024-05-03')).toBe(true); // Good Friday
+    expect(holidays.has('2024-05-06')).toBe(true); // Easter Monday
+    expect(holidays.has('2024-06-24')).toBe(true); // Kataklysmos
+    expect(holidays.has('2024-03-15')).toBe(false);
+  });
+});
+
+describe('parseStoreHours', () => {
+  it('should provide default opening hours', () => {
+    const hours = parseStoreHours(undefined);
+    expect(hours[1]).toEqual([540, 1140]);
+    expect(hours[0]).toBeNull();
+  });
+
+  it('should override weekdays from config', () => {
+    const hours = parseStoreHours('{"mon": "10:00-18:30", "Sunday": "10:00-13:00", "sat": null}');
+    expect(hours[1]).toEqual([600, 1110]);
+    expect(hours[0]).toEqual([600, 780]);
+    expect(hours[6]).toBeNull();
+    expect(hours[2]).toEqual([540, 1140]);
+  });
+
+  it('should ignore invalid entries and invalid JSON', () => {
+    expect(parseStoreHours('{"mon": "late", "tue": "19:00-09:00", "xyz": "09:00-10:00"}')).toEqual(parseStoreHours(undefined));
+    expect(parseStoreHours('not json')).toEqual(parseStoreHours(undefined));
+  });
+});
+
+describe('parseStoreHoursField', () => {
+  it('should read PrestaShop store hours, Monday first', () => {
+    const hours = parseStoreHoursField(
+      '[["09:00AM - 07:00PM"],["09:00AM - 07:00PM"],["09:00 - 14:00"],["09:00AM - 07:00PM"],["09:00AM - 07:00PM"],["10:00AM - 01:30PM"],[""]]'
+    );
+    expect(hours?.[1]).toEqual([540, 1140]);
+    expect(hours?.[3]).toEqual([540, 840]);
+    expect(hours?.[6]).toEqual([600, 810]);
+    expect(hours?.[0]).toBeNull();
+  });
+
+  it('should return null for missing or unusable hours', () => {
+    expect(parseStoreHoursField(undefined)).toBeNull();
+    expect(parseStoreHoursField('not json')).toBeNull();
+    expect(parseStoreHoursField('[["09:00 - 19:00"]]')).toBeNull();
+    expect(parseStoreHoursField('[["09:00 - 13:00, 16:00 - 19:00"],[""],[""],[""],[""],[""],[""]]')).toBeNull();
+  });
+});
+
+describe('parseStoreHolidays', () => {
+  it('should combine public holidays for this and next year with extra days', () => {
+    const closed = parseStoreHolidays('["2024-12-24", "soon"]', '2024-11-01');
+    expect(closed.has('2024-12-24')).toBe(true);
+    expect(closed.has('2025-01-01')).toBe(true);
+    expect(closed.has('soon')).toBe(false);
+  });
+});
+
+describe('nextCallbackSlots', () => {
+  const hours = parseStoreHours(undefined);
+  const closed = parseStoreHolidays(undefined, '2024-03-15');
+
+  it('should start after the lead time and move to the next open day', () => {
+    // Friday 18:10 - too late today, Saturday opens at 09:00
+    expect(nextCallbackSlots({ day: '2024-03-15', minutes: 1090 }, hours, closed, new Map(), 2))
+      .toEqual(['2024-03-16T09:00', '2024-03-16T09:30', '2024-03-16T10:00']);
+  });
+
+  it('should offer slots later today when there is time', () => {
+    expect(nextCallbackSlots({ day: '2024-03-15', minutes: 600 }, hours, closed, new Map(), 2, 2))
+      .toEqual(['2024-03-15T10:30', '2024-03-15T11:00']);
+  });
+
+  it('should skip full slots', () => {
+    const booked = new Map([['2024-03-16T09:00', 2], ['2024-03-16T09:30', 1]]);
+    expect(nextCallbackSlots({ day: '2024-03-15', minutes: 1090 }, hours, closed, booked, 2))
+      .toEqual(['2024-03-16T09:30', '2024-03-16T10:00', '2024-03-16T10:30']);
+  });
+
+  it('should skip Sundays and public holidays', () => {
+    // Saturday 13:40, Sunday closed, Monday 25 March is a holiday
+    expect(nextCallbackSlots({ day: '2024-03-23', minutes: 820 }, hours, closed, new Map(), 2, 1))
+      .toEqual(['2024-03-26T09:00']);
+  });
+});
+
+describe('isCallbackSlot', () => {
+  const hours = parseStoreHours(undefined);
+  const closed = parseStoreHolidays(undefined, '2024-03-15');
+  const now = { day: '2024-03-15', minutes: 600 };
+
+  it('should accept aligned slots inside opening hours', () => {
+    expect(isCallbackSlot('2024-03-15T10:30', now, hours, closed)).toBe(true);
+    expect(isCallbackSlot('2024-03-16T13:30', now, hours, closed)).toBe(true);
+  });
+
+  it('should reject past, closed, misaligned and malformed slots', () => {
+    expect(isCallbackSlot('2024-03-15T10:00', now, hours, closed)).toBe(false); // Inside the lead time
+    expect(isCallbackSlot('2024-03-16T14:00', now, hours, closed)).toBe(false); // Saturday closes at 14:00
+    expect(isCallbackSlot('2024-03-17T10:00', now, hours, closed)).toBe(false); // Sunday
+    expect(isCallbackSlot('2024-03-18T10:00', now, hours, closed)).toBe(false); // Green Monday
+    expect(isCallbackSlot('2024-03-19T10:15', now, hours, closed)).toBe(false);
+    expect(isCallbackSlot('tomorrow 10am', now, hours, closed)).toBe(false);
+  });
+});
+
+describe('describeSlot', () => {
+  it('should describe slots relative to today', () => {
+    expect(describeSlot('2024-03-16T09:30', '2024-03-15')).toBe('tomorrow at 09:30');
+    expect(describeSlot('2024-03-15T16:00', '2024-03-15')).toBe('today at 16:00');
+  });
+
+  it('should speak the time in Greek and Russian', () => {
+    expect(describeSlot('2024-03-16T09:30', '2024-03-15', 'el')).toBe('αύριο στις εννέα και μισή το πρωί');
+    expect(describeSlot('2024-03-18T13:00', '2024-03-15', 'el')).toBe('τη Δευτέρα στη μία το μεσημέρι');
+    expect(describeSlot('2024-03-16T09:30', '2024-03-15', 'ru')).toBe('завтра в девять тридцать утра');
+  });
+});
+
+describe('spokenTime', () => {
+  it('should speak English times with the part of the day', () => {
+    expect(spokenTime(540)).toBe('nine in the morning');
+    expect(spokenTime(1110)).toBe('half past six in the evening');
+    expect(spokenTime(720)).toBe('noon');
+    expect(spokenTime(825)).toBe('quarter to two in the afternoon');
+  });
+
+  it('should speak Greek and Russian times', () => {
+    expect(spokenTime(540, 'el')).toBe('τις εννέα το πρωί');
+    expect(spokenTime(810, 'el')).toBe('τη μία και μισή το μεσημέρι');
+    expect(spokenTime(1140, 'ru')).toBe('семь вечера');
+    expect(spokenTime(1140, 'ru', true)).toBe('семи вечера');
+  });
+});
+
+describe('spokenAtTime', () => {
+  it('should put the right "at" in front of the time', () => {
+    expect(spokenAtTime(540)).toBe('at nine in the morning');
+    expect(spokenAtTime(540, 'el')).toBe('στις εννέα το πρωί');
+    expect(spokenAtTime(780, 'el')).toBe('στη μία το μεσημέρι');
+    expect(spokenAtTime(765, 'el')).toBe('στη μία παρά τέταρτο το μεσημέρι');
+    expect(spokenAtTime(540, 'ru')).toBe('в девять утра');
+  });
+});
+
+describe('spokenHours', () => {
+  it('should speak opening hours as a range', () => {
+    expect(spokenHours([540, 1140])).toBe('from nine in the morning to seven in the evening');
+    expect(spokenHours([540, 840], 'el')).toBe('από τις εννέα το πρωί έως τις δύο το μεσημέρι');
+    expect(spokenHours([540, 1140], 'ru')).toBe('с девяти утра до семи вечера');
+  });
+});
+
+describe('resolveStoreDate', () => {
+  it('should resolve relative days and weekday names', () => {
+    expect(resolveStoreDate(undefined, '2024-03-15')).toBe('2024-03-15');
+    expect(resolveStoreDate('tomorrow', '2024-03-15')).toBe('2024-03-16');
+    expect(resolveStoreDate('Monday', '2024-03-15')).toBe('2024-03-18');
+    expect(resolveStoreDate('Σάββατο', '2024-03-15')).toBe('2024-03-16');
+    expect(resolveStoreDate('пятницу', '2024-03-15')).toBe('2024-03-15');
+    expect(resolveStoreDate('2024-04-01', '2024-03-15')).toBe('2024-04-01');
+  });
+
+  it('should accept a leading "on" or "this"', () => {
+    expect(resolveStoreDate('on Saturday', '2024-03-15')).toBe('2024-03-16');
+    expect(resolveStoreDate('this Monday', '2024-03-15')).toBe('2024-03-18');
+    expect(resolveStoreDate('το Σάββατο', '2024-03-15')).toBe('2024-03-16');
+    expect(resolveStoreDate('во вторник', '2024-03-15')).toBe('2024-03-19');
+  });
+
+  it('should return null for unclear days', () => {
+    expect(resolveStoreDate('someday', '2024-03-15')).toBeNull();
+  });
+
+  it('should return null for impossible dates', () => {
+    expect(resolveStoreDate('2026-02-30', '2026-02-01')).toBeNull();
+    expect(resolveStoreDate('2024-13-01', '2024-03-15')).toBeNull();
+    expect(resolveStoreDate('2024-02-29', '2024-02-01')).toBe('2024-02-29');
+  });
+});
@@ -15,16 +15,653 @@ export interface Env {
   PRESTASHOP_API_KEY: string;
   PRESTASHOP_URL: string;
   RETELL_API_KEY?: string; // Optional: for Retell webhook signature verification
+  CARRIER_TRANSIT_DAYS?: string; // Optional: JSON map of carrier ID/name → [min, max] working days
+  RETURN_WINDOW_DAYS?: string;   // Optional: days after delivery a return can be requested (default 14)
+  CATALOG_INDEX?: KVNamespace;   // Optional: local product search index, rebuilt by the cron trigger
+  PRONUNCIATION?: KVNamespace;   // Optional: pronunciation lexicon overrides, editable without redeploying
+  SUPPORT_CONTACTS?: string;     // Optional: JSON map of ticket category → PrestaShop contact (department) ID
+  TICKET_LOCKS?: DurableObjectNamespace; // Optional: serializes ticket creation per call (stops duplicate tickets on retries)
+  STORE_HOURS?: string;          // Optional: JSON map of weekday (mon..sun) → "09:00-19:00", or null when closed (stores without their own hours)
+  STORE_HOLIDAYS?: string;       // Optional: JSON list of extra closed days (YYYY-MM-DD) on top of public holidays
+  CALLBACK_SLOT_CAPACITY?: string; // Optional: callbacks staff can take per 30-minute slot (default 2)
+  CALLBACKS?: KVNamespace;       // Optional: callback bookings, read by staff as their queue
+  CALLBACK_SLOTS?: DurableObjectNamespace; // Optional: books callback slots against capacity one at a time
+  VERIFY_ATTEMPTS?: DurableObjectNamespace; // Optional: wrong verification answers counted across isolates
+  PICKUP_STORES?: string;        // Optional: JSON list of PrestaShop store IDs offering order pickup (all when unset)
+}
+
+// Per-call context extracted from the Retell payload (when Retell sends the call object)
+export interface CallContext {
+  callId?: string;
+  language?: string; // From call metadata or dynamic variables, used when the tool gets no language
+  fromNumber?: string; // Caller's phone number, when Retell passes it
 }
 
 // Voice optimization constants
 const VOICE_ITEM_LIMIT = 5;      // Max items to read aloud in orders
 const VOICE_SEARCH_DEFAULT = 5;  // Default search results for voice
 const VOICE_SEARCH_MAX = 10;     // Max products in search results
+const VOICE_ORDER_LIST_DEFAULT = 3; // Default orders listed for a customer
+const ORDER_LIST_FETCH_MAX = 20;    // Orders scanned when narrowing by date/amount/product
+const ORDER_AMOUNT_TOLERANCE = 1;   // Euros of slack when matching a spoken order total
+const ORDER_REFERENCE_LENGTH = 9;   // PrestaShop order references (ABCDEFGHI)
+const REFERENCE_CANDIDATE_MAX = 8;  // Readings of a spoken reference tried against /orders
+const ALTERNATIVES_MAX = 3;         // In-stock alternatives offered for an out-of-stock product
+const ALTERNATIVES_FETCH_MAX = 30;  // Same-category candidates scanned for alternatives
+const ALTERNATIVES_PRICE_BAND = 0.3; // ±30% of the original price
+const COMPARE_PRODUCTS_MAX = 3;     // Products compared side by side
+const COMPARE_FEATURE_MAX = 4;      // Differing specs read aloud
+const SEARCH_FILTER_FETCH_MAX = 30; // Candidates scanned when price/category/stock filters apply
+const POPULARITY_SAMPLE_MAX = 500;  // Most recent order lines counted for "most popular"
+const BROWSE_SUBCATEGORY_MAX = 6;   // Subcategories read aloud when browsing
+const BROWSE_FETCH_MAX = 200;       // Products priced per subcategory when browsing live (no catalog index)
+
+// Pricing (Cyprus VAT, used when tax rules can't be loaded)
+const CY_STANDARD_VAT_RATE = 19;
+const CY_COUNTRY_ISO = 'CY';
+const CY_CURRENCY_ISO = 'EUR';
+const STORE_SHOP_ID = 1;            // armenius.cy is a single-shop install
+const PS_ZERO_DATE = '0000-00-00 00:00:00';
+const PRICE_NOTE = 'Prices include VAT and current promotions. Check product page for delivery times.';
+
+// Order state groups used for delivery estimates
+const SHIPPED_STATES = new Set([4]);
+const DELIVERED_STATES = new Set([5, 14]);
+const ORDER_CLOSED_STATES = new Set([6, 7, 8]); // Cancelled, refunded, payment error
+
+// Delivery estimate defaults (working days, Europe/Nicosia)
+const STORE_TIMEZONE = 'Europe/Nicosia';
+const DEFAULT_TRANSIT_DAYS: [number, number] = [1, 3];
+const ORDER_PROCESSING_DAYS = 1; // Working days before an unshipped order leaves the warehouse
+
+// Store opening hours by weekday (0 = Sunday), minutes after midnight in Europe/Nicosia
+export type StoreHours = Record<number, [number, number] | null>;
+const DEFAULT_STORE_HOURS: StoreHours = {
+  0: null,
+  1: [540, 1140], // 09:00-19:00
+  2: [540, 1140],
+  3: [540, 840],  // Wednesday afternoons closed
+  4: [540, 1140],
+  5: [540, 1140],
+  6: [540, 840]   // 09:00-14:00
+};
+const WEEKDAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Cyprus public holidays: fixed dates (MM-DD) and days relative to Orthodox Easter Sunday
+const CYPRUS_FIXED_HOLIDAYS = ['01-01', '01-06', '03-25', '04-01', '05-01', '08-15', '10-01', '10-28', '12-25', '12-26'];
+const CYPRUS_EASTER_HOLIDAYS = [-48, -2, 0, 1, 2, 50]; // Green Monday, Good Friday, Easter Sunday to Tuesday, Kataklysmos
+
+// Callback scheduling (30-minute slots inside opening hours)
+const CALLBACK_SLOT_MINUTES = 30;
+const CALLBACK_LEAD_MINUTES = 30;     // Earliest callback is at least this far ahead
+const CALLBACK_OFFER_MAX = 3;         // Slots offered to the caller at once
+const CALLBACK_SEARCH_DAYS = 14;      // How far ahead free slots are searched
+const DEFAULT_CALLBACK_CAPACITY = 2;
+const CALLBACK_KEY_PREFIX = 'callback:';
+const CALLBACK_TEXT: Record<CallerLanguage, {
+  unavailable: string;
+  noSlots: string;
+  offer: (times: string) => string;
+  notAvailable: (times: string) => string;
+  filled: (times: string) => string;
+  askIssue: string;
+  askPhone: string;
+  booked: (when: string, lastDigits: string) => string;
+  failed: string;
+  or: string;
+}> = {
+  en: {
+    unavailable: 'I can\'t book callbacks right now. Please email support@armenius.cy or call during business hours.',
+    noSlots: 'We have no free callback times in the next two weeks. Please email support@armenius.cy.',
+    offer: times => `Our team can call you ${times}. Which suits you?`,
+    notAvailable: times => `That time isn't available for a callback.${times ? ` I can offer ${times}.` : ''}`,
+    filled: times => `That time just filled up.${times ? ` I can offer ${times}.` : ''}`,
+    askIssue: 'What should our team call you about?',
+    askPhone: 'What number should our team call you on?',
+    booked: (when, lastDigits) => `You're booked. Our team will call you ${when} on the number ending ${lastDigits}.`,
+    failed: 'I couldn\'t book the callback. Please email support@armenius.cy or call during business hours.',
+    or: ', or '
+  },
+  el: {
+    unavailable: 'Δεν μπορώ να κλείσω επανάκληση αυτή τη στιγμή. Στείλτε μας email στο support@armenius.cy ή καλέστε σε ώρες λειτουργίας.',
+    noSlots: 'Δεν έχουμε ελεύθερη ώρα για επανάκληση τις επόμενες δύο εβδομάδες. Στείλτε μας email στο support@armenius.cy.',
+    offer: times => `Η ομάδα μας μπορεί να σας καλέσει ${times}. Ποιο σας βολεύει;`,
+    notAvailable: times => `Αυτή η ώρα δεν είναι διαθέσιμη για επανάκληση.${times ? ` Μπορώ να σας προτείνω ${times}.` : ''}`,
+    filled: times => `Αυτή η ώρα μόλις γέμισε.${times ? ` Μπορώ να σας προτείνω ${times}.` : ''}`,
+    askIssue: 'Για ποιο θέμα να σας καλέσει η ομάδα μας;',
+    askPhone: 'Σε ποιο αριθμό να σας καλέσει η ομάδα μας;',
+    booked: (when, lastDigits) => `Έγινε. Η ομάδα μας θα σας καλέσει ${when} στον αριθμό που τελειώνει σε ${lastDigits}.`,
+    failed: 'Δεν μπόρεσα να κλείσω την επανάκληση. Στείλτε μας email στο support@armenius.cy ή καλέστε σε ώρες λειτουργίας.',
+    or: ' ή '
+  },
+  ru: {
+    unavailable: 'Сейчас я не могу записать на обратный звонок. Пожалуйста, напишите на support@armenius.cy или позвоните в рабочие часы.',
+    noSlots: 'В ближайшие две недели нет свободного времени для обратного звонка. Пожалуйста, напишите на support@armenius.cy.',
+    offer: times => `Наша команда может перезвонить вам ${times}. Как вам удобнее?`,
+    notAvailable: times => `Это время недоступно для обратного звонка.${times ? ` Могу предложить ${times}.` : ''}`,
+    filled: times => `Это время только что заняли.${times ? ` Могу предложить ${times}.` : ''}`,
+    askIssue: 'По какому вопросу нашей команде вам перезвонить?',
+    askPhone: 'На какой номер нашей команде вам перезвонить?',
+    booked: (when, lastDigits) => `Готово. Наша команда перезвонит вам ${when} на номер, который заканчивается на ${lastDigits}.`,
+    failed: 'Не удалось записать на обратный звонок. Пожалуйста, напишите на support@armenius.cy или позвоните в рабочие часы.',
+    or: ' или '
+  }
+};
+const STORE_CLOSURES_DAYS = 14;       // Upcoming holiday closures mentioned by getStoreInfo
+
+// Day words in Greek and Russian ("το Σάββατο", "в субботу")
+const SPOKEN_WEEKDAYS: Record<'el' | 'ru', string[]> = {
+  el: ['την Κυριακή', 'τη Δευτέρα', 'την Τρίτη', 'την Τετάρτη', 'την Πέμπτη', 'την Παρασκευή', 'το Σάββατο'],
+  ru: ['в воскресенье', 'в понедельник', 'во вторник', 'в среду', 'в четверг', 'в пятницу', 'в субботу']
+};
+const SPOKEN_RELATIVE_DAYS: Record<CallerLanguage, [string, string, string]> = { // Yesterday, today, tomorrow
+  en: ['yesterday', 'today', 'tomorrow'],
+  el: ['χθες', 'σήμερα', 'αύριο'],
+  ru: ['вчера', 'сегодня', 'завтра']
+};
+
+// Spec answers for getProductDetails per caller language (feature names arrive in the caller's language)
+const PRODUCT_DETAILS_TEXT: Record<CallerLanguage, { answer: (spec: string, value: string) => string; unknown: string }> = {
+  en: {
+    answer: (spec, value) => `The ${spec.toLowerCase()} is ${value}.`,
+    unknown: 'I don\'t see that in the product details. You can check the product page or I can create a ticket for our team.'
+  },
+  el: {
+    answer: (spec, value) => `${spec}: ${value}.`,
+    unknown: 'Δεν το βλέπω στα στοιχεία του προϊόντος. Μπορείτε να δείτε τη σελίδα του προϊόντος ή να ανοίξω αίτημα για την ομάδα μας.'
+  },
+  ru: {
+    answer: (spec, value) => `${spec}: ${value}.`,
+    unknown: 'Я не вижу этого в описании товара. Можно посмотреть страницу товара, или я создам заявку для нашей команды.'
+  }
+};
+
+// checkProductStock replies per caller language
+const STOCK_TEXT: Record<CallerLanguage, {
+  needName: string;
+  notFound: (name: string) => string;
+  invalidId: string;
+  unavailable: string;
+  inStock: (quantity: number) => string;
+  outOfStock: string;
+  note: string;
+  ambiguousVariant: string;
+  unknownVariant: (options: string) => string;
+  variantsInStock: (count: number, options: string) => string;
+  allVariantsOut: string;
+  alternatives: (message: string, names: string) => string;
+  failed: string;
+}> = {
+  en: {
+    needName: 'Please provide a product name to check.',
+    notFound: name => `No product found matching "${name}"`,
+    invalidId: 'Please provide a valid product ID or name to check stock.',
+    unavailable: 'Unable to check stock for this product',
+    inStock: quantity => `We have ${quantity} units in stock. Please check the product page for delivery times.`,
+    outOfStock: 'Sorry, this product is currently out of stock',
+    note: 'Stock availability does not guarantee instant delivery. Check product page for delivery times.',
+    ambiguousVariant: 'That matches a few options. Which one did you mean?',
+    unknownVariant: options => `I couldn't find that option. It comes in: ${options}.`,
+    variantsInStock: (count, options) => `This comes in ${count} options. In stock: ${options}.`,
+    allVariantsOut: 'Sorry, all options of this product are currently out of stock',
+    alternatives: (message, names) => `${message}. Similar options in stock: ${names}.`,
+    failed: 'Unable to check product availability. Please try again.'
+  },
+  el: {
+    needName: 'Πείτε μου το όνομα του προϊόντος που θέλετε να ελέγξω.',
+    notFound: name => `Δεν βρήκα προϊόν που να ταιριάζει με "${name}"`,
+    invalidId: 'Πείτε μου έναν έγκυρο κωδικό ή το όνομα του προϊόντος για να ελέγξω το απόθεμα.',
+    unavailable: 'Δεν μπόρεσα να ελέγξω το απόθεμα αυτού του προϊόντος',
+    inStock: quantity => `Έχουμε ${quantity} ${quantity === 1 ? 'τεμάχιο' : 'τεμάχια'} σε απόθεμα. Δείτε τη σελίδα του προϊόντος για τους χρόνους παράδοσης.`,
+    outOfStock: 'Δυστυχώς αυτό το προϊόν δεν είναι διαθέσιμο αυτή τη στιγμή',
+    note: 'Η διαθεσιμότητα δεν εγγυάται άμεση παράδοση. Δείτε τη σελίδα του προϊόντος για τους χρόνους παράδοσης.',
+    ambiguousVariant: 'Αυτό ταιριάζει με μερικές επιλογές. Ποια εννοείτε;',
+    unknownVariant: options => `Δεν βρήκα αυτή την επιλογή. Διατίθεται σε: ${options}.`,
+    variantsInStock: (count, options) => `Διατίθεται σε ${count} επιλογές. Σε απόθεμα: ${options}.`,
+    allVariantsOut: 'Δυστυχώς καμία επιλογή αυτού του προϊόντος δεν είναι διαθέσιμη αυτή τη στιγμή',
+    alternatives: (message, names) => `${message}. Παρόμοιες επιλογές σε απόθεμα: ${names}.`,
+    failed: 'Δεν μπόρεσα να ελέγξω τη διαθεσιμότητα. Δοκιμάστε ξανά.'
+  },
+  ru: {
+    needName: 'Назовите, пожалуйста, товар, который нужно проверить.',
+    notFound: name => `Не нашла товар по запросу "${name}"`,
+    invalidId: 'Назовите, пожалуйста, код или название товара, чтобы проверить наличие.',
+    unavailable: 'Не удалось проверить наличие этого товара',
+    inStock: quantity => `В наличии ${quantity} ${russianPlural(quantity, ['штука', 'штуки', 'штук'])}. Сроки доставки смотрите на странице товара.`,
+    outOfStock: 'К сожалению, этого товара сейчас нет в наличии',
+    note: 'Наличие на складе не гарантирует мгновенную доставку. Сроки доставки смотрите на странице товара.',
+    ambiguousVariant: 'Под это подходят несколько вариантов. Какой вы имели в виду?',
+    unknownVariant: options => `Я не нашла такой вариант. Есть такие: ${options}.`,
+    variantsInStock: (count, options) => `Есть ${count} ${russianPlural(count, ['вариант', 'варианта', 'вариантов'])}. В наличии: ${options}.`,
+    allVariantsOut: 'К сожалению, сейчас нет в наличии ни одного варианта этого товара',
+    alternatives: (message, names) => `${message}. Похожие товары в наличии: ${names}.`,
+    failed: 'Не удалось проверить наличие товара. Попробуйте ещё раз.'
+  }
+};
+
+// compareProducts replies per caller language
+const COMPARE_TEXT: Record<CallerLanguage, {
+  needProducts: string;
+  notFound: (names: string) => string;
+  sameProduct: (first: string, second: string) => string;
+  loadFailed: string;
+  differences: (list: string) => string;
+  noDifferences: string;
+  failed: string;
+  or: string;
+  versus: string;
+}> = {
+  en: {
+    needProducts: 'Please tell me two or three products to compare.',
+    notFound: names => `I couldn't find ${names}. Could you give me the exact model?`,
+    sameProduct: (first, second) => `${first} and ${second} both matched the same product. Could you give me the exact model of each?`,
+    loadFailed: 'I couldn\'t load one of those products. Please try again.',
+    differences: list => `Main differences: ${list}.`,
+    noDifferences: 'I don\'t see any listed spec differences between these, so price and availability are the main difference.',
+    failed: 'Unable to compare those products. Please try again.',
+    or: ' or ',
+    versus: ' vs '
+  },
+  el: {
+    needProducts: 'Πείτε μου δύο ή τρία προϊόντα για να τα συγκρίνω.',
+    notFound: names => `Δεν βρήκα ${names}. Μπορείτε να μου πείτε το ακριβές μοντέλο;`,
+    sameProduct: (first, second) => `Το ${first} και το ${second} αντιστοιχούν στο ίδιο προϊόν. Μπορείτε να μου πείτε το ακριβές μοντέλο του καθενός;`,
+    loadFailed: 'Δεν μπόρεσα να φορτώσω ένα από αυτά τα προϊόντα. Δοκιμάστε ξανά.',
+    differences: list => `Οι κύριες διαφορές: ${list}.`,
+    noDifferences: 'Δεν βλέπω διαφορές στα χαρακτηριστικά τους, οπότε η κύρια διαφορά είναι η τιμή και η διαθεσιμότητα.',
+    failed: 'Δεν μπόρεσα να συγκρίνω αυτά τα προϊόντα. Δοκιμάστε ξανά.',
+    or: ' ή ',
+    versus: ' έναντι '
+  },
+  ru: {
+    needProducts: 'Назовите, пожалуйста, два или три товара для сравнения.',
+    notFound: names => `Я не нашла ${names}. Можете назвать точную модель?`,
+    sameProduct: (first, second) => `${first} и ${second} совпали с одним и тем же товаром. Можете назвать точную модель каждого?`,
+    loadFailed: 'Не удалось загрузить один из этих товаров. Попробуйте ещё раз.',
+    differences: list => `Основные различия: ${list}.`,
+    noDifferences: 'Я не вижу различий в характеристиках, так что главное различие — цена и наличие.',
+    failed: 'Не удалось сравнить эти товары. Попробуйте ещё раз.',
+    or: ' или ',
+    versus: ' против '
+  }
+};
+
+// browseCategory replies per caller language (price ranges arrive as spoken words)
+const BROWSE_TEXT: Record<CallerLanguage, {
+  unavailable: string;
+  notFound: (spoken: string, categories: string) => string;
+  shop: string;
+  empty: (name: string) => string;
+  range: (name: string, from: string, to: string) => string;
+  subcategories: (name: string, list: string) => string;
+  failed: string;
+}> = {
+  en: {
+    unavailable: 'I can\'t load our product categories right now. What product are you looking for?',
+    notFound: (spoken, categories) => `I couldn't find a category called "${spoken}". Our main categories are: ${categories}.`,
+    shop: 'our shop',
+    empty: name => `We don't have any ${name} listed right now.`,
+    range: (name, from, to) => `${name}, from ${from} to ${to}`,
+    subcategories: (name, list) => `In ${name} we have: ${list}. Which kind interests you?`,
+    failed: 'Unable to browse that category right now. What product are you looking for?'
+  },
+  el: {
+    unavailable: 'Δεν μπορώ να φορτώσω τις κατηγορίες μας αυτή τη στιγμή. Τι προϊόν ψάχνετε;',
+    notFound: (spoken, categories) => `Δεν βρήκα κατηγορία "${spoken}". Οι κύριες κατηγορίες μας είναι: ${categories}.`,
+    shop: 'Armenius',
+    empty: name => `Αυτή τη στιγμή δεν έχουμε προϊόντα στην κατηγορία ${name}.`,
+    range: (name, from, to) => `${name}, από ${from} έως ${to}`,
+    subcategories: (name, list) => `Στην κατηγορία ${name} έχουμε: ${list}. Ποιο είδος σας ενδιαφέρει;`,
+    failed: 'Δεν μπορώ να δω αυτή την κατηγορία αυτή τη στιγμή. Τι προϊόν ψάχνετε;'
+  },
+  ru: {
+    unavailable: 'Сейчас не получается загрузить наши категории. Какой товар вы ищете?',
+    notFound: (spoken, categories) => `Я не нашла категорию "${spoken}". Наши основные категории: ${categories}.`,
+    shop: 'Armenius',
+    empty: name => `Сейчас в категории ${name} нет товаров.`,
+    range: (name, from, to) => `${name}: самая низкая цена ${from}, самая высокая ${to}`,
+    subcategories: (name, list) => `В категории ${name} есть: ${list}. Что вас интересует?`,
+    failed: 'Сейчас не получается открыть эту категорию. Какой товар вы ищете?'
+  }
+};
+
+// Tracking sentences for getTrackingInfo per caller language
+const TRACKING_TEXT: Record<CallerLanguage, {
+  shipped: (carrier: string, trackingNumber: string) => string;
+  preparing: (carrier: string) => string;
+}> = {
+  en: {
+    shipped: (carrier, trackingNumber) => `Your order is being shipped via ${carrier}. Tracking number: ${trackingNumber}`,
+    preparing: carrier => `Your order is being prepared for shipping via ${carrier}. Tracking will be available soon.`
+  },
+  el: {
+    shipped: (carrier, trackingNumber) => `Η παραγγελία σας αποστέλλεται με ${carrier}. Αριθμός αποστολής: ${trackingNumber}`,
+    preparing: carrier => `Η παραγγελία σας ετοιμάζεται για αποστολή με ${carrier}. Ο αριθμός αποστολής θα είναι διαθέσιμος σύντομα.`
+  },
+  ru: {
+    shipped: (carrier, trackingNumber) => `Ваш заказ отправлен через ${carrier}. Номер отслеживания: ${trackingNumber}`,
+    preparing: carrier => `Ваш заказ готовится к отправке через ${carrier}. Номер отслеживания скоро появится.`
+  }
+};
+
+// Delivery sentences for getOrderTimeline per caller language
+const DELIVERY_TEXT: Record<CallerLanguage, {
+  delivered: (day: string) => string;
+  expected: (day: string, carrier: string) => string;
+  expectedRange: (earliest: string, latest: string, carrier: string) => string;
+}> = {
+  en: {
+    delivered: day => `Delivered ${day}.`,
+    expected: (day, carrier) => `Expected ${day} with ${carrier}.`,
+    expectedRange: (earliest, latest, carrier) =>
+      `Expected between ${earliest.replace(/^on /, '')} and ${latest.replace(/^on /, '')} with ${carrier}.`
+  },
+  el: {
+    delivered: day => `Παραδόθηκε ${day}.`,
+    expected: (day, carrier) => `Αναμένεται ${day} με ${carrier}.`,
+    expectedRange: (earliest, latest, carrier) => `Αναμένεται ${earliest}, το αργότερο ${latest}, με ${carrier}.`
+  },
+  ru: {
+    delivered: day => `Доставлен ${day}.`,
+    expected: (day, carrier) => `Ожидается ${day}, доставка через ${carrier}.`,
+    expectedRange: (earliest, latest, carrier) => `Ожидается ${earliest}, самое позднее ${latest}, доставка через ${carrier}.`
+  }
+};
+
+// Weekday names callers use (EN/EL/RU, accents stripped) → weekday, 0 = Sunday
+const WEEKDAY_NAMES: Record<string, number> = {
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
+  'κυριακη': 0, 'δευτερα': 1, 'τριτη': 2, 'τεταρτη': 3, 'πεμπτη': 4, 'παρασκευη': 5, 'σαββατο': 6,
+  'воскресенье': 0, 'понедельник': 1, 'вторник': 2, 'среда': 3, 'среду': 3, 'четверг': 4,
+  'пятница': 5, 'пятницу': 5, 'суббота': 6, 'субботу': 6
+};
+
+// Russian hours in the genitive, for "с девяти утра до семи вечера" (index = hour on a 12-hour clock)
+const RU_HOURS_GENITIVE = ['', 'часа', 'двух', 'трёх', 'четырёх', 'пяти', 'шести', 'семи', 'восьми', 'девяти', 'десяти',
+  'одиннадцати', 'двенадцати'];
+const RU_MINUTES_GENITIVE: Record<number, string> = { 15: 'пятнадцати', 30: 'тридцати', 45: 'сорока пяти' };
+
+// Verification prompts per caller language (locked after too many wrong answers, wrong answers, not asked yet)
+const VERIFY_TEXT: Record<CallerLanguage, { locked: string; mismatch: string; ask: string }> = {
+  en: {
+    locked: 'I wasn\'t able to verify your details on this call, so I can only share the order status. Our team can help if you email us from the address on the order.',
+    mismatch: 'Those details don\'t match our records, so I can only share the order status. Could you try your last name or postcode again?',
+    ask: 'Before I share the order details, could you confirm your last name or the postcode on the order?'
+  },
+  el: {
+    locked: 'Δεν μπόρεσα να επιβεβαιώσω τα στοιχεία σας σε αυτή την κλήση, οπότε μπορώ να σας πω μόνο την κατάσταση της παραγγελίας. Η ομάδα μας μπορεί να βοηθήσει αν μας στείλετε email από τη διεύθυνση της παραγγελίας.',
+    mismatch: 'Αυτά τα στοιχεία δεν ταιριάζουν με τα αρχεία μας, οπότε μπορώ να σας πω μόνο την κατάσταση της παραγγελίας. Μπορείτε να μου πείτε ξανά το επώνυμο ή τον ταχυδρομικό κώδικα;',
+    ask: 'Πριν σας δώσω τα στοιχεία της παραγγελίας, μπορείτε να επιβεβαιώσετε το επώνυμό σας ή τον ταχυδρομικό κώδικα της παραγγελίας;'
+  },
+  ru: {
+    locked: 'Мне не удалось подтвердить ваши данные во время этого звонка, поэтому я могу сообщить только статус заказа. Наша команда поможет, если вы напишете нам с адреса, указанного в заказе.',
+    mismatch: 'Эти данные не совпадают с нашими, поэтому я могу сообщить только статус заказа. Можете ещё раз назвать фамилию или почтовый индекс?',
+    ask: 'Прежде чем назвать детали заказа, подтвердите, пожалуйста, вашу фамилию или почтовый индекс из заказа.'
+  }
+};
+
+// Store information sentences per caller language
+const STORE_INFO_TEXT: Record<CallerLanguage, {
+  open: (day: string, hours: string) => string;
+  closed: (day: string) => string;
+  holiday: (day: string) => string;
+  openNow: (until: string) => string;
+  opensAt: (day: string, time: string) => string; // Time comes with its "at" (spokenAtTime)
+  pickup: (stores: string) => string;
+  whichDay: string;
+  failed: string;
+}> = {
+  en: {
+    open: (day, hours) => `${day} we're open ${hours}.`,
+    closed: day => `${day} we're closed.`,
+    holiday: day => `${day} we're closed for a public holiday.`,
+    openNow: until => `We're open right now, until ${until}.`,
+    opensAt: (day, time) => `We're closed right now. We open again ${day} ${time}.`,
+    pickup: stores => `You can pick up your order at ${stores} once we let you know it's ready.`,
+    whichDay: 'Which day do you mean? Please give me a weekday or a date.',
+    failed: 'Unable to load the store information. Please try again.'
+  },
+  el: {
+    open: (day, hours) => `${day} είμαστε ανοιχτά ${hours}.`,
+    closed: day => `${day} είμαστε κλειστά.`,
+    holiday: day => `${day} είμαστε κλειστά λόγω αργίας.`,
+    openNow: until => `Είμαστε ανοιχτά τώρα, μέχρι ${until}.`,
+    opensAt: (day, time) => `Αυτή τη στιγμή είμαστε κλειστά. Ανοίγουμε ξανά ${day} ${time}.`,
+    pickup: stores => `Μπορείτε να παραλάβετε την παραγγελία σας από ${stores} μόλις σας ειδοποιήσουμε ότι είναι έτοιμη.`,
+    whichDay: 'Ποια μέρα εννοείτε; Πείτε μου μια μέρα της εβδομάδας ή μια ημερομηνία.',
+    failed: 'Δεν μπόρεσα να φορτώσω τις πληροφορίες του καταστήματος. Δοκιμάστε ξανά.'
+  },
+  ru: {
+    open: (day, hours) => `${day} мы работаем ${hours}.`,
+    closed: day => `${day} мы не работаем.`,
+    holiday: day => `${day} мы закрыты из-за праздника.`,
+    openNow: until => `Сейчас мы открыты до ${until}.`,
+    opensAt: (day, time) => `Сейчас мы закрыты. Откроемся ${day} ${time}.`,
+    pickup: stores => `Заказ можно забрать в ${stores}, как только мы сообщим, что он готов.`,
+    whichDay: 'Какой день вы имеете в виду? Назовите день недели или дату.',
+    failed: 'Не удалось загрузить информацию о магазине. Попробуйте ещё раз.'
+  }
+};
+
+// Order return (RMA) states, as installed by PrestaShop, per caller language
+const RETURN_STATES: Record<CallerLanguage, Record<number, string>> = {
+  en: {
+    1: 'waiting for confirmation',
+    2: 'waiting for package',
+    3: 'package received',
+    4: 'return denied',
+    5: 'return completed'
+  },
+  el: {
+    1: 'αναμένει επιβεβαίωση',
+    2: 'αναμένουμε το δέμα',
+    3: 'το δέμα παραλήφθηκε',
+    4: 'η επιστροφή απορρίφθηκε',
+    5: 'η επιστροφή ολοκληρώθηκε'
+  },
+  ru: {
+    1: 'ожидает подтверждения',
+    2: 'ожидаем посылку',
+    3: 'посылка получена',
+    4: 'в возврате отказано',
+    5: 'возврат завершён'
+  }
+};
+const RETURN_STATE_UNKNOWN: Record<CallerLanguage, string> = { en: 'unknown', el: 'άγνωστη', ru: 'неизвестно' };
+const RETURN_CLOSED_STATES = new Set([4, 5]); // Denied, completed
+
+// requestReturn and getReturnStatus replies per caller language
+const RETURN_TEXT: Record<CallerLanguage, {
+  needReason: string;
+  alreadyOpen: (rma: string) => string;
+  cancelled: string;
+  notDelivered: string;
+  windowEnded: (days: number) => string;
+  whichItems: string;
+  itemNotFound: string;
+  opened: (rma: string) => string;
+  failed: string;
+  badNumber: string;
+  needLookup: string;
+  notFound: string;
+  statusFailed: string;
+}> = {
+  en: {
+    needReason: 'Could you tell me why you\'d like to return it?',
+    alreadyOpen: rma => `There's already a return open for this order. The return number is ${rma}.`,
+    cancelled: 'This order was cancelled or refunded, so it can\'t be returned.',
+    notDelivered: 'This order hasn\'t been delivered yet, so a return can\'t be opened.',
+    windowEnded: days => `The ${days}-day return window for this order has ended.`,
+    whichItems: 'Which of these items would you like to return?',
+    itemNotFound: 'I couldn\'t find that item in the order. Which of these would you like to return?',
+    opened: rma => `Your return is open. The return number is ${rma}. We'll email you the next steps.`,
+    failed: 'I was unable to open the return automatically. Please email support@armenius.cy and we\'ll arrange it.',
+    badNumber: 'Return numbers look like R E followed by six digits. Could you repeat it?',
+    needLookup: 'Please provide a return number, order reference, email, or phone number',
+    notFound: 'I couldn\'t find a return matching that. Would you like to open one?',
+    statusFailed: 'Unable to check the return status. Please try again.'
+  },
+  el: {
+    needReason: 'Μπορείτε να μου πείτε γιατί θέλετε να το επιστρέψετε;',
+    alreadyOpen: rma => `Υπάρχει ήδη ανοιχτή επιστροφή για αυτή την παραγγελία. Ο αριθμός επιστροφής είναι ${rma}.`,
+    cancelled: 'Αυτή η παραγγελία ακυρώθηκε ή έγινε επιστροφή χρημάτων, οπότε δεν μπορεί να επιστραφεί.',
+    notDelivered: 'Αυτή η παραγγελία δεν έχει παραδοθεί ακόμα, οπότε δεν μπορεί να ανοίξει επιστροφή.',
+    windowEnded: days => `Η προθεσμία επιστροφής των ${days} ημερών για αυτή την παραγγελία έχει λήξει.`,
+    whichItems: 'Ποιο από αυτά τα προϊόντα θέλετε να επιστρέψετε;',
+    itemNotFound: 'Δεν βρήκα αυτό το προϊόν στην παραγγελία. Ποιο από αυτά θέλετε να επιστρέψετε;',
+    opened: rma => `Η επιστροφή σας άνοιξε. Ο αριθμός επιστροφής είναι ${rma}. Θα σας στείλουμε email με τα επόμενα βήματα.`,
+    failed: 'Δεν μπόρεσα να ανοίξω την επιστροφή αυτόματα. Στείλτε μας email στο support@armenius.cy και θα την κανονίσουμε.',
+    badNumber: 'Οι αριθμοί επιστροφής ξεκινούν με R E και έξι ψηφία. Μπορείτε να τον επαναλάβετε;',
+    needLookup: 'Πείτε μου τον αριθμό επιστροφής, τον αριθμό παραγγελίας, το email ή το τηλέφωνό σας.',
+    notFound: 'Δεν βρήκα επιστροφή με αυτά τα στοιχεία. Θέλετε να ανοίξουμε μία;',
+    statusFailed: 'Δεν μπόρεσα να ελέγξω την κατάσταση της επιστροφής. Δοκιμάστε ξανά.'
+  },
+  ru: {
+    needReason: 'Подскажите, почему вы хотите это вернуть?',
+    alreadyOpen: rma => `По этому заказу уже открыт возврат. Номер возврата ${rma}.`,
+    cancelled: 'Этот заказ был отменён или деньги за него возвращены, поэтому его нельзя вернуть.',
+    notDelivered: 'Этот заказ ещё не доставлен, поэтому возврат открыть нельзя.',
+    windowEnded: days => `Срок возврата в ${days} дней для этого заказа истёк.`,
+    whichItems: 'Какой из этих товаров вы хотите вернуть?',
+    itemNotFound: 'Я не нашла этот товар в заказе. Какой из этих товаров вы хотите вернуть?',
+    opened: rma => `Возврат открыт. Номер возврата ${rma}. Следующие шаги мы пришлём вам по почте.`,
+    failed: 'Не удалось открыть возврат автоматически. Пожалуйста, напишите на support@armenius.cy, и мы всё устроим.',
+    badNumber: 'Номер возврата — это R E и шесть цифр. Можете повторить?',
+    needLookup: 'Назовите номер возврата, номер заказа, email или телефон.',
+    notFound: 'Я не нашла возврат по этим данным. Хотите открыть новый?',
+    statusFailed: 'Не удалось проверить статус возврата. Попробуйте ещё раз.'
+  }
+};
+const DEFAULT_RETURN_WINDOW_DAYS = 14; // EU distance-selling withdrawal period
+
+// Support tickets (PrestaShop customer service threads)
+export type TicketCategory = 'hardware_fault' | 'delivery' | 'return' | 'billing' | 'other';
+export type TicketPriority = 'low' | 'normal' | 'high' | 'urgent';
+const TICKET_CATEGORIES: Record<TicketCategory, string> = {
+  hardware_fault: 'Hardware fault',
+  delivery: 'Delivery',
+  return: 'Return',
+  billing: 'Billing',
+  other: 'Other'
+};
+const TICKET_PRIORITIES: TicketPriority[] = ['low', 'normal', 'high', 'urgent'];
+
+// Priority names as the replies use them ("με υψηλή προτεραιότητα", "с высоким приоритетом")
+const TICKET_PRIORITY_NAMES: Record<'el' | 'ru', Record<TicketPriority, string>> = {
+  el: { low: 'χαμηλή', normal: 'κανονική', high: 'υψηλή', urgent: 'επείγουσα' },
+  ru: { low: 'низким', normal: 'обычным', high: 'высоким', urgent: 'срочным' }
+};
+
+// createSupportTicket replies per caller language
+const TICKET_TEXT: Record<CallerLanguage, {
+  describe: string;
+  invalidEmail: string;
+  needContact: string;
+  duplicate: (ticket: string) => string;
+  updated: (ticket: string) => string;
+  created: (ticket: string) => string;
+  createdUrgent: (ticket: string, priority: TicketPriority) => string;
+  failed: string;
+}> = {
+  en: {
+    describe: 'Please describe your issue so we can help you.',
+    invalidEmail: 'That doesn\'t look like a valid email address. Could you spell it for me?',
+    needContact: 'What\'s the best email or phone number for our team to reach you?',
+    duplicate: ticket => `Your ticket is already open: ${ticket}. Our team will follow up.`,
+    updated: ticket => `I've added that to your ticket ${ticket}.`,
+    created: ticket => `I've created ticket ${ticket}. Our team will follow up within 24 hours.`,
+    createdUrgent: (ticket, priority) => `I've created ticket ${ticket} and marked it ${priority}. Our team will contact you as soon as possible.`,
+    failed: 'I was unable to create the support ticket automatically. Please email support@armenius.cy or call during business hours.'
+  },
+  el: {
+    describe: 'Περιγράψτε μου το πρόβλημα για να σας βοηθήσουμε.',
+    invalidEmail: 'Αυτό δεν μοιάζει με έγκυρο email. Μπορείτε να μου το πείτε γράμμα γράμμα;',
+    needContact: 'Σε ποιο email ή τηλέφωνο μπορεί να σας βρει η ομάδα μας;',
+    duplicate: ticket => `Το αίτημά σας είναι ήδη ανοιχτό: ${ticket}. Η ομάδα μας θα επικοινωνήσει μαζί σας.`,
+    updated: ticket => `Το πρόσθεσα στο αίτημά σας ${ticket}.`,
+    created: ticket => `Δημιούργησα το αίτημα ${ticket}. Η ομάδα μας θα επικοινωνήσει μαζί σας μέσα σε 24 ώρες.`,
+    createdUrgent: (ticket, priority) => `Δημιούργησα το αίτημα ${ticket} με ${TICKET_PRIORITY_NAMES.el[priority]} προτεραιότητα. Η ομάδα μας θα επικοινωνήσει μαζί σας το συντομότερο.`,
+    failed: 'Δεν μπόρεσα να δημιουργήσω το αίτημα αυτόματα. Στείλτε μας email στο support@armenius.cy ή καλέστε σε ώρες λειτουργίας.'
+  },
+  ru: {
+    describe: 'Опишите, пожалуйста, проблему, чтобы мы могли помочь.',
+    invalidEmail: 'Похоже, этот адрес почты неверный. Можете продиктовать его по буквам?',
+    needContact: 'По какому email или телефону наша команда может с вами связаться?',
+    duplicate: ticket => `Ваша заявка уже открыта: ${ticket}. Наша команда свяжется с вами.`,
+    updated: ticket => `Я добавила это в вашу заявку ${ticket}.`,
+    created: ticket => `Я создала заявку ${ticket}. Наша команда свяжется с вами в течение 24 часов.`,
+    createdUrgent: (ticket, priority) => `Я создала заявку ${ticket} с ${TICKET_PRIORITY_NAMES.ru[priority]} приоритетом. Наша команда свяжется с вами как можно скорее.`,
+    failed: 'Не удалось создать заявку автоматически. Пожалуйста, напишите на support@armenius.cy или позвоните в рабочие часы.'
+  }
+};
+const DEFAULT_SUPPORT_CONTACT_ID = 2; // PrestaShop's "Customer service" contact
+const TICKET_TOKEN_LENGTH = 12;
+const TICKET_STATES: Record<CallerLanguage, Record<string, string>> = {
+  en: { open: 'open, waiting for our team', pending1: 'in progress', pending2: 'in progress', closed: 'closed' },
+  el: { open: 'ανοιχτό, περιμένει την ομάδα μας', pending1: 'σε εξέλιξη', pending2: 'σε εξέλιξη', closed: 'κλειστό' },
+  ru: { open: 'открыта, ждёт нашу команду', pending1: 'в работе', pending2: 'в работе', closed: 'закрыта' }
+};
+
+// getTicketStatus replies per caller language
+const TICKET_STATUS_TEXT: Record<CallerLanguage, {
+  invalidNumber: string;
+  needLookup: string;
+  notFound: string;
+  verify: string;
+  verifyGuest: string;
+  locked: string;
+  lastReply: (day: string, reply: string) => string;
+  noReply: string;
+  failed: string;
+}> = {
+  en: {
+    invalidNumber: 'Ticket numbers look like T K followed by six digits. Could you repeat it?',
+    needLookup: 'Please provide a ticket number, email, or phone number',
+    notFound: 'I couldn\'t find an open ticket matching that. Would you like me to create one?',
+    verify: 'Before I read you our team\'s reply, could you confirm your last name or the postcode on your account?',
+    verifyGuest: 'Before I read you our team\'s reply, could you give me the ticket number and the email you gave us?',
+    locked: 'I wasn\'t able to verify your details on this call, so I can only tell you the ticket\'s status. Our team will reply by email.',
+    lastReply: (day, reply) => `Our team last replied ${day}: ${reply}`,
+    noReply: 'Our team hasn\'t replied yet. They\'ll get back to you as soon as possible.',
+    failed: 'Unable to check the ticket status. Please try again.'
+  },
+  el: {
+    invalidNumber: 'Οι αριθμοί αιτημάτων ξεκινούν με Τ Κ και έχουν έξι ψηφία. Μπορείτε να τον επαναλάβετε;',
+    needLookup: 'Πείτε μου τον αριθμό του αιτήματος, το email ή το τηλέφωνό σας.',
+    notFound: 'Δεν βρήκα ανοιχτό αίτημα με αυτά τα στοιχεία. Θέλετε να ανοίξω ένα;',
+    verify: 'Πριν σας διαβάσω την απάντηση της ομάδας μας, μπορείτε να μου επιβεβαιώσετε το επώνυμο ή τον ταχυδρομικό κώδικα του λογαριασμού σας;',
+    verifyGuest: 'Πριν σας διαβάσω την απάντηση της ομάδας μας, μπορείτε να μου πείτε τον αριθμό του αιτήματος και το email που μας δώσατε;',
+    locked: 'Δεν μπόρεσα να επιβεβαιώσω τα στοιχεία σας σε αυτή την κλήση, οπότε μπορώ να σας πω μόνο την κατάσταση του αιτήματος. Η ομάδα μας θα σας απαντήσει με email.',
+    lastReply: (day, reply) => `Η ομάδα μας απάντησε τελευταία φορά ${day}: ${reply}`,
+    noReply: 'Η ομάδα μας δεν έχει απαντήσει ακόμα. Θα επικοινωνήσει μαζί σας το συντομότερο.',
+    failed: 'Δεν μπόρεσα να ελέγξω το αίτημα. Δοκιμάστε ξανά.'
+  },
+  ru: {
+    invalidNumber: 'Номер заявки начинается с Т К и шести цифр. Можете повторить?',
+    needLookup: 'Назовите номер заявки, email или телефон.',
+    notFound: 'Я не нашла открытую заявку по этим данным. Создать новую?',
+    verify: 'Прежде чем я прочитаю ответ нашей команды, назовите, пожалуйста, вашу фамилию или почтовый индекс из аккаунта.',
+    verifyGuest: 'Прежде чем я прочитаю ответ нашей команды, назовите номер заявки и email, который вы нам дали.',
+    locked: 'Мне не удалось подтвердить ваши данные в этом звонке, поэтому я могу сообщить только статус заявки. Наша команда ответит вам по email.',
+    lastReply: (day, reply) => `Последний ответ нашей команды был ${day}: ${reply}`,
+    noReply: 'Наша команда ещё не ответила. Они свяжутся с вами как можно скорее.',
+    failed: 'Не удалось проверить статус заявки. Попробуйте ещё раз.'
+  }
+};
+const TICKET_REPLY_SENTENCES = 2; // Sentences of a staff reply read back to the caller
+const TICKET_STATE_TTL = 86400000;  // Per-call ticket state lives a day - well past the call and Retell's retries
+const TICKET_SIMILARITY_MIN = 0.6;  // Share of the shorter message's words that makes a follow-up in the same call
+
+// Minimal product fields for names and pricing
+const PRODUCT_DISPLAY_FIELDS = '[id,name,price,id_tax_rules_group,id_category_default]';
+
+// Minimal order fields for status lookups and listings
+const ORDER_DISPLAY_FIELDS = '[id,id_customer,reference,current_state,total_paid,date_add,payment,associations]';
 
 // PrestaShop API response interfaces
 interface PrestaShopOrder {
   id: number;
+  id_customer?: number | string;
   reference: string;
   current_state: number;
   total_paid: string;
@@ -36,12 +673,62 @@ interface PrestaShopOrder {
 }
 
 interface OrderRow {
+  id?: string;
+  product_id?: string;
   product_name: string;
   product_quantity: string;
 }
 
+interface PrestaShopOrderReturn {
+  id: string;
+  id_order: string;
+  id_customer: string;
+  state: string;
+  date_add: string;
+  date_upd?: string;
+}
+
+interface PrestaShopCustomerThread {
+  id: string;
+  id_customer: string;
+  id_order: string;
+  email: string;
+  status: string;   // open, closed, pending1, pending2
+  date_add: string;
+  date_upd?: string;
+}
+
+export interface PrestaShopCustomerMessage {
+  id: string;
+  id_customer_thread: string;
+  id_employee: string;  // 0 for the customer's own messages
+  message: string;
+  private: string;
+  date_add: string;
+}
+
+interface PrestaShopStore {
+  id: string;
+  name: string | { id: string; value: string }[];
+  address1: string | { id: string; value: string }[];
+  postcode: string;
+  city: string;
+  phone: string;
+  active: string;
+  hours?: string | { id: string; value: string }[]; // JSON list of opening times per weekday, Monday first
+}
+
 interface PrestaShopCustomer {
   id: number;
+  lastname?: string;
+}
+
+interface PrestaShopAddress {
+  id_customer: string;
+  lastname?: string;
+  postcode?: string;
+  phone?: string;
+  phone_mobile?: string;
 }
 
 interface PrestaShopProduct {
@@ -50,10 +737,77 @@ interface PrestaShopProduct {
   price: string;
 }
 
+interface PrestaShopSpecificPrice {
+  id_product: string;
+  id_group: string;
+  id_country: string;       // "0" = every country, likewise for currency and shop
+  id_currency: string;
+  id_shop: string;
+  from_quantity: string;
+  price: string;            // Fixed tax-excluded price, or "-1" to keep the product price
+  reduction: string;        // Fraction for percentage (0.10 = 10%), euros for amount
+  reduction_type: 'amount' | 'percentage';
+  reduction_tax: string;    // "1" when an amount reduction is tax-included
+  from: string;             // "0000-00-00 00:00:00" = no start date
+  to: string;               // "0000-00-00 00:00:00" = no end date
+}
+
+interface PrestaShopProductFeature {
+  id: string;
+  name: string | { id: string; value: string }[];
+}
+
+// Product specification as spoken to the caller ("RAM: 16 gigabytes")
+export interface ProductSpec {
+  name: string;
+  value: string;
+}
+
+interface PrestaShopTaxRule {
+  id_tax_rules_group: string;
+  id_tax: string;
+}
+
+// Final consumer price for voice (VAT included, promotions applied)
+export interface ConsumerPrice {
+  price: string;
+  was_price?: string; // Regular price when on sale
+  amount: number;     // Final price in euros (for price filters and sorting)
+  was_amount?: number;
+}
+
 interface PrestaShopStockAvailable {
+  id_product_attribute?: string;
   quantity: string;
 }
 
+interface PrestaShopCombination {
+  id: string;
+  associations?: {
+    product_option_values?: { id: string }[];
+  };
+}
+
+// Sellable variant of a product (colour, size, capacity...) with its stock
+export interface ProductVariant {
+  id: number;
+  label: string;
+  quantity: number;
+}
+
+interface PrestaShopCategory {
+  id: string;
+  id_parent: string;
+  name: string | { id: string; value: string }[];
+}
+
+// Catalog category with its names in every shop language
+export interface CategoryNode {
+  id: number;
+  parentId: number;
+  names: { languageId: number; value: string }[];
+}
+
 interface PrestaShopCarrier {
   id: string;
   name: string;
@@ -64,7 +818,28 @@ interface PrestaShopOrderCarrier {
   tracking_number: string;
 }
 
-// Order state mapping (pre-computed, zero runtime cost)
+// Caller languages supported by Alexis (Greek is the default on the phone line)
+export type CallerLanguage = 'el' | 'ru' | 'en';
+const DEFAULT_CALLER_LANGUAGE: CallerLanguage = 'el';
+
+// Spoken/ISO language hints → caller language (PrestaShop uses "gr" as Greek's ISO code)
+const LANGUAGE_ALIASES: Record<string, CallerLanguage> = {
+  el: 'el', gr: 'el', greek: 'el', 'ελληνικά': 'el',
+  ru: 'ru', russian: 'ru', 'русский': 'ru',
+  en: 'en', english: 'en'
+};
+
+interface PrestaShopOrderState {
+  id: string;
+  name: string | { id: string; value: string }[];
+}
+
+interface PrestaShopLanguage {
+  id: string;
+  iso_code: string;
+}
+
+// Offline fallback when /order_states can't be loaded (English only)
 const ORDER_STATES: Record<number, string> = {
   1: 'awaiting check payment',
   2: 'payment accepted',
@@ -92,11 +867,72 @@ let carrierCache: Map<number, string> = new Map();
 let carrierCacheTime = 0;
 const CARRIER_CACHE_TTL = 3600000; // 1 hour
 
+// Order states with multilingual names (same 1 hour TTL as carriers)
+let orderStateCache: Map<number, PrestaShopOrderState['name']> = new Map();
+let orderStateCacheTime = 0;
+
+// Product feature names ("RAM", "Screen size") by feature ID (same 1 hour TTL as carriers)
+let featureNameCache: Map<number, PrestaShopProductFeature['name']> = new Map();
+let featureNameCacheTime = 0;
+
+// Physical stores (same 1 hour TTL as carriers)
+let storeCache: PrestaShopStore[] = [];
+let storeCacheTime = 0;
+
+// Active catalog categories by ID (same 1 hour TTL as carriers)
+let categoryCache: Map<number, CategoryNode> = new Map();
+let categoryCacheTime = 0;
+const CATEGORY_HOME_ID = 2;
+const CATEGORY_ROOT_IDS = new Set([1, CATEGORY_HOME_ID]); // PrestaShop "Root" and "Home"
+
+// Category browse results (5 min TTL like products, max 50 categories) - keyed by "languageId:categoryId"
+let browseCache: Map<string, { result: any; time: number }> = new Map();
+const BROWSE_CACHE_MAX = 50;
+
+// VAT rate by tax rules group for Cyprus (same 1 hour TTL as carriers)
+let taxRateCache: Map<number, number> = new Map();
+let taxRateCacheTime = 0;
+
+// Country, currency and shop promotions must match to be quoted (same 1 hour TTL as carriers)
+let priceScopeCache: PriceScope | null = null;
+let priceScopeCacheTime = 0;
+
+// PrestaShop language IDs by caller language (same 1 hour TTL as carriers)
+let languageCache: Map<CallerLanguage, number> = new Map();
+let languageCacheTime = 0;
+const DEFAULT_LANGUAGE_ID = 1; // PrestaShop install language (English on armenius.cy)
+
 // Product cache for frequently accessed products (5 min TTL, max 100 items)
-let productCache: Map<number, { name: string; price: string; time: number }> = new Map();
+let productCache: Map<string, { name: string; pricing: ConsumerPrice; time: number }> = new Map(); // Keyed by "languageId:productId"
 const PRODUCT_CACHE_TTL = 300000; // 5 minutes
 const PRODUCT_CACHE_MAX = 100;
 
+// Caller verification state per Retell call (30 min TTL, max 500 calls)
+// Isolate-local: if a call lands on a fresh isolate, the caller is simply asked again
+let callVerifications: Map<string, { customerIds: Set<number>; failures: number; time: number }> = new Map();
+const CALL_VERIFICATION_TTL = 1800000; // 30 minutes (longer than max call duration)
+const CALL_VERIFICATION_MAX = 500;
+const VERIFY_MAX_FAILURES = 3;         // Wrong answers before verification is locked for the call and the account
+
+// Phone matching (E.164, Cyprus default region)
+const PHONE_MIN_DIGITS = 8;   // Shortest international number we accept
+const PHONE_MAX_DIGITS = 15;  // E.164 maximum
+const PHONE_SEARCH_TAIL = 6;  // Trailing digits used for the PrestaShop LIKE prefilter (any separators between them)
+
+// Pronunciation lexicon (built-in defaults, KV overrides; isolate copy for 5 min)
+let pronunciationCache: { lexicon: PronunciationLexicon; time: number } | null = null;
+const PRONUNCIATION_KEY = 'lexicon';
+const PRONUNCIATION_CACHE_TTL = 300000; // 5 minutes
+
+// Local catalog search index (KV, rebuilt by cron; isolate copy for 5 min)
+let catalogIndexCache: { index: CatalogIndex; time: number } | null = null;
+const CATALOG_INDEX_KEY = 'catalog-index:v1';
+const CATALOG_INDEX_CACHE_TTL = 300000;  // 5 minutes
+const CATALOG_INDEX_MAX_AGE = 21600000;  // 6 hours - older means the sync is failing, search live instead
+const CATALOG_SYNC_PAGE = 500;           // Products per PrestaShop page during the sync
+const CATALOG_SYNC_MAX_PAGES = 100;
+const CATALOG_SYNC_TIMEOUT = 30000;      // Large pages need more than the voice-path timeout
+
 // Search result cache (30s TTL, max 50 queries) - reduces duplicate PrestaShop API calls
 let searchCache: Map<string, { ids: number[]; time: number }> = new Map();
 const SEARCH_CACHE_TTL = 30000; // 30 seconds
@@ -108,12 +944,35 @@ const REGEX_EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 const REGEX_FILTER_CHARS = /[\[\]|,]/g;
 const REGEX_NUMERIC = /^\d+$/;
 const REGEX_QUOTES = /['"]/g;
-const REGEX_SPECIAL_CHARS = /[^\w\s\-\.]/g;
+const REGEX_SPECIAL_CHARS = /[^\p{L}\p{N}_\s\-\.]/gu; // Unicode-aware so Greek/Cyrillic queries survive
 const REGEX_WHITESPACE = /\s+/g;
 const REGEX_GPU_SERIES = /\b(rtx|gtx|radeon)\s*(\d{2})\s*(series|line)?\b/i;
 const REGEX_MEM_SPEC = /(\d+)\s*(gb|tb|mb)/i;
+const REGEX_UNIT_SPACE = /(\d+)\s+(gb|tb|mb|hz|w|inch)\b/gi;
+const REGEX_VARIANT_SPLIT = /[\s,\/\-]+/;
+const REGEX_NAME_WORDS = /[^\p{L}\p{N}]+/u;
+const REGEX_HTML_TAGS = /<[^>]+>/g;
+const REGEX_SENTENCE_END = /(?<=[.!?])\s+/;
+const REGEX_HOURS_RANGE = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/;
+const REGEX_ISO_DAY = /^\d{4}-\d{2}-\d{2}$/;
+const REGEX_DAY_LEAD = /^(?:(?:on|this|την|τη|το|в|во)\s+)+/; // "on Saturday", "this Friday", "το Σάββατο", "в субботу"
+const REGEX_STORE_HOURS_RANGE = /^(\d{1,2})[:.](\d{2})\s*(am|pm)?\s*[-–]\s*(\d{1,2})[:.](\d{2})\s*(am|pm)?$/i;
+const REGEX_CALLBACK_SLOT = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})$/;
+const REGEX_TICKET_WORD_SPLIT = /[^\p{L}\p{N}]+/u;
 const REGEX_HAS_DIGIT = /\d/;
-const REGEX_PHONE_CLEAN = /[\s\-\(\)\+]/g;
+const REGEX_PHONE_CY = /^[2789]\d{7}$/;          // Cyprus national: 2x landline, 9x mobile, 7x/8x special
+const REGEX_PHONE_GR = /^(?:69\d{8}|2\d{9})$/;  // Greece national: 69x mobile, 2x landline
+const REGEX_PHONE_RU_TRUNK = /^8[3489]\d{9}$/;   // Russia with domestic trunk prefix 8
+const REGEX_PHONE_RU = /^9\d{9}$/;               // Russia mobile without country code
+const REGEX_PHONE_INTL_BARE = /^(?:357\d{8}|30\d{10}|7\d{10})$/; // CY/GR/RU country code without "+"
+const REGEX_DATE_DMY = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+const REGEX_NON_DIGIT = /\D/g;
+const REGEX_DECIMAL_MARK = /[.,]\d{1,2}$/;         // "349.90", "349,9"
+const REGEX_LEADING_ZEROS = /^0+/;
+const REGEX_DIACRITICS = /[\u0300-\u036f]/g;
+const REGEX_SINGLE_LATIN_LETTER = /^[a-z]$/;
+const REGEX_ALPHA_WORD = /^[\p{L}]{2,}$/u;
+const REGEX_CATEGORY_SUFFIX = /(?:ies|es|ες|ης|ος|ов|ей|s|y|e|α|η|ο|ς|ы|и|а|я)$/u;
 
 // TTS transformation regexes (pre-compiled for makeSpeechFriendly)
 const REGEX_G_MODEL = /\bG(\d+)\b/g;
@@ -123,6 +982,13 @@ const REGEX_MB = /(\d+)\s*MB\b/gi;
 const REGEX_DDR = /\bDDR(\d+)\b/gi;
 const REGEX_PROC_FULL = /\bi(\d+)-(\d+)G(\d+)\b/gi;
 const REGEX_PROC_SHORT = /\bi(\d+)-(\d+)\b/gi;
+const REGEX_GHZ = /(\d+(?:\.\d+)?)\s*GHz\b/gi;
+const REGEX_MHZ = /(\d+(?:\.\d+)?)\s*MHz\b/gi;
+const REGEX_HZ = /(\d+)\s*Hz\b/gi;
+const REGEX_WATT = /(\d+)\s*W\b/g;
+const REGEX_INCH = /(\d+(?:\.\d+)?)\s*(?:"|''|”|inch(?:es)?\b)/gi;
+const REGEX_ACRONYM = /\b(SSD|HDD|LCD|LED|USB|HDMI|RGB|IPS|GPU|CPU)\b/g;
+const REGEX_EURO_PRICE = /€\s?(\d+)(?:\.(\d{1,2}))?/g;
 
 // Rate limiting (per-isolate, sliding window)
 const RATE_LIMIT_REQUESTS = 100;  // Max requests per window
@@ -223,7 +1089,12 @@ const SEARCH_STOP_WORDS = new Set([
   'used', 'i', 'you', 'he', 'she', 'it', 'we', 'they', 'what', 'which',
   'who', 'whom', 'this', 'that', 'these', 'those', 'am', 'is', 'are',
   'looking', 'want', 'need', 'find', 'search', 'show', 'get', 'any', 'some',
-  'series', 'line', 'model', 'type', 'kind', 'version', 'gen', 'generation'
+  'series', 'line', 'model', 'type', 'kind', 'version', 'gen', 'generation',
+  // Greek
+  'ο', 'η', 'το', 'οι', 'τα', 'ένα', 'μια', 'ένας', 'και', 'για', 'με', 'σε', 'από',
+  'θέλω', 'ψάχνω', 'έχετε', 'κάποιο', 'κάποια',
+  // Russian
+  'и', 'в', 'на', 'для', 'с', 'я', 'мне', 'хочу', 'ищу', 'нужен', 'нужна', 'есть', 'какой', 'какая'
 ]);
 
 // Tech brand names to preserve in searches
@@ -237,6 +1108,378 @@ const TECH_BRANDS = new Set([
 ]);
 
 
+// Speech recognition (ASR) correction applied before searching
+// Transcripts spell out what the caller said: "are tee ex fifty seventy", "rise en seven", "σάμσουνγκ"
+
+// Spoken letter names (EN/EL/RU, accents stripped) → Latin letter
+const LETTER_NAMES: Record<string, string> = {
+  ay: 'a', bee: 'b', see: 'c', cee: 'c', dee: 'd', ee: 'e', ef: 'f', eff: 'f', gee: 'g', aitch: 'h',
+  eye: 'i', jay: 'j', kay: 'k', el: 'l', ell: 'l', em: 'm', en: 'n', oh: 'o', pee: 'p', cue: 'q',
+  are: 'r', ar: 'r', es: 's', ess: 's', tee: 't', you: 'u', vee: 'v', ex: 'x', why: 'y', zed: 'z', zee: 'z',
+  // Greek
+  'μπι': 'b', 'σι': 'c', 'ντι': 'd', 'εφ': 'f', 'τζι': 'g', 'ειτς': 'h', 'αι': 'i', 'τζει': 'j', 'κει': 'k',
+  'ελ': 'l', 'εμ': 'm', 'εν': 'n', 'πι': 'p', 'κιου': 'q', 'αρ': 'r', 'ες': 's', 'τι': 't', 'γιου': 'u',
+  'βι': 'v', 'εξ': 'x', 'γουαι': 'y', 'ζεντ': 'z',
+  // Russian (English and German-style letter names)
+  'эй': 'a', 'би': 'b', 'бэ': 'b', 'си': 'c', 'цэ': 'c', 'ди': 'd', 'дэ': 'd', 'эф': 'f', 'джи': 'g', 'гэ': 'g',
+  'эйч': 'h', 'ай': 'i', 'джей': 'j', 'кей': 'k', 'эл': 'l', 'эм': 'm', 'эн': 'n', 'пи': 'p', 'кью': 'q',
+  'ар': 'r', 'эр': 'r', 'эс': 's', 'ти': 't', 'тэ': 't', 'ю': 'u', 'ви': 'v', 'вэ': 'v', 'икс': 'x', 'экс': 'x',
+  'уай': 'y', 'зет': 'z'
+};
+
+// Acronyms worth joining spelled-out letters for (so "are you" never becomes "ru")
+const SPOKEN_ACRONYMS = new Set([
+  'rtx', 'gtx', 'amd', 'msi', 'hp', 'lg', 'aoc', 'nzxt', 'evga', 'pny', 'rog', 'tuf', 'xps', 'ti', 'xt', 'xtx',
+  'ssd', 'hdd', 'nvme', 'cpu', 'gpu', 'psu', 'ram', 'ddr', 'usb', 'hdmi', 'led', 'oled', 'ips', 'rgb', 'tv', 'pc', 'ups'
+]);
+
+// Spoken number words (EN/EL/RU, accents stripped) → value and how it combines
+type NumberWordKind = 'unit' | 'teen' | 'tens' | 'hundreds' | 'hundred' | 'thousand';
+const NUMBER_WORDS: Record<string, [number, NumberWordKind]> = {
+  zero: [0, 'unit'], one: [1, 'unit'], two: [2, 'unit'], three: [3, 'unit'], four: [4, 'unit'],
+  five: [5, 'unit'], six: [6, 'unit'], seven: [7, 'unit'], eight: [8, 'unit'], nine: [9, 'unit'],
+  ten: [10, 'teen'], eleven: [11, 'teen'], twelve: [12, 'teen'], thirteen: [13, 'teen'], fourteen: [14, 'teen'],
+  fifteen: [15, 'teen'], sixteen: [16, 'teen'], seventeen: [17, 'teen'], eighteen: [18, 'teen'], nineteen: [19, 'teen'],
+  twenty: [20, 'tens'], thirty: [30, 'tens'], forty: [40, 'tens'], fifty: [50, 'tens'],
+  sixty: [60, 'tens'], seventy: [70, 'tens'], eighty: [80, 'tens'], ninety: [90, 'tens'],
+  hundred: [100, 'hundred'], thousand: [1000, 'thousand'],
+  // Greek
+  'μηδεν': [0, 'unit'], 'ενα': [1, 'unit'], 'ενας': [1, 'unit'], 'μια': [1, 'unit'], 'δυο': [2, 'unit'],
+  'τρια': [3, 'unit'], 'τρεις': [3, 'unit'], 'τεσσερα': [4, 'unit'], 'τεσσερις': [4, 'unit'], 'πεντε': [5, 'unit'],
+  'εξι': [6, 'unit'], 'εφτα': [7, 'unit'], 'επτα': [7, 'unit'], 'οχτω': [8, 'unit'], 'οκτω': [8, 'unit'],
+  'εννια': [9, 'unit'], 'εννεα': [9, 'unit'],
+  'δεκα': [10, 'teen'], 'εντεκα': [11, 'teen'], 'δωδεκα': [12, 'teen'], 'δεκατρια': [13, 'teen'],
+  'δεκατεσσερα': [14, 'teen'], 'δεκαπεντε': [15, 'teen'], 'δεκαεξι': [16, 'teen'], 'δεκαεφτα': [17, 'teen'],
+  'δεκαεπτα': [17, 'teen'], 'δεκαοχτω': [18, 'teen'], 'δεκαοκτω': [18, 'teen'], 'δεκαεννια': [19, 'teen'],
+  'δεκαεννεα': [19, 'teen'],
+  'εικοσι': [20, 'tens'], 'τριαντα': [30, 'tens'], 'σαραντα': [40, 'tens'], 'πενηντα': [50, 'tens'],
+  'εξηντα': [60, 'tens'], 'εβδομηντα': [70, 'tens'], 'ογδοντα': [80, 'tens'], 'ενενηντα': [90, 'tens'],
+  'εκατο': [100, 'hundreds'], 'εκατον': [100, 'hundreds'], 'διακοσια': [200, 'hundreds'],
+  'τριακοσια': [300, 'hundreds'], 'τετρακοσια': [400, 'hundreds'], 'πεντακοσια': [500, 'hundreds'],
+  'εξακοσια': [600, 'hundreds'], 'εφτακοσια': [700, 'hundreds'], 'επτακοσια': [700, 'hundreds'],
+  'οχτακοσια': [800, 'hundreds'], 'οκτακοσια': [800, 'hundreds'], 'εννιακοσια': [900, 'hundreds'],
+  'χιλια': [1000, 'thousand'], 'χιλιαδες': [1000, 'thousand'],
+  // Russian
+  'ноль': [0, 'unit'], 'один': [1, 'unit'], 'одна': [1, 'unit'], 'два': [2, 'unit'], 'две': [2, 'unit'],
+  'три': [3, 'unit'], 'четыре': [4, 'unit'], 'пять': [5, 'unit'], 'шесть': [6, 'unit'], 'семь': [7, 'unit'],
+  'восемь': [8, 'unit'], 'девять': [9, 'unit'],
+  'десять': [10, 'teen'], 'одиннадцать': [11, 'teen'], 'двенадцать': [12, 'teen'], 'тринадцать': [13, 'teen'],
+  'четырнадцать': [14, 'teen'], 'пятнадцать': [15, 'teen'], 'шестнадцать': [16, 'teen'],
+  'семнадцать': [17, 'teen'], 'восемнадцать': [18, 'teen'], 'девятнадцать': [19, 'teen'],
+  'двадцать': [20, 'tens'], 'тридцать': [30, 'tens'], 'сорок': [40, 'tens'], 'пятьдесят': [50, 'tens'],
+  'шестьдесят': [60, 'tens'], 'семьдесят': [70, 'tens'], 'восемьдесят': [80, 'tens'], 'девяносто': [90, 'tens'],
+  'сто': [100, 'hundreds'], 'двести': [200, 'hundreds'], 'триста': [300, 'hundreds'], 'четыреста': [400, 'hundreds'],
+  'пятьсот': [500, 'hundreds'], 'шестьсот': [600, 'hundreds'], 'семьсот': [700, 'hundreds'],
+  'восемьсот': [800, 'hundreds'], 'девятьсот': [900, 'hundreds'],
+  'тысяча': [1000, 'thousand'], 'тысячи': [1000, 'thousand'], 'тысяч': [1000, 'thousand']
+};
+
+// Place value a number word needs free to extend the number being built ("fifty" + "five", not "fifty" + "seventy")
+const NUMBER_WORD_NEEDS: Record<'unit' | 'teen' | 'tens' | 'hundreds', number> = { unit: 10, teen: 100, tens: 100, hundreds: 1000 };
+
+// Product line names corrected alongside TECH_BRANDS ("rise en" → "ryzen")
+const MODEL_TOKENS = new Set([
+  'ryzen', 'core', 'geforce', 'radeon', 'thinkpad', 'ideapad', 'legion', 'pavilion', 'omen', 'victus',
+  'strix', 'zenbook', 'vivobook', 'inspiron', 'galaxy', 'iphone', 'ipad', 'macbook', 'playstation', 'xbox', 'nintendo'
+]);
+
+// Brands that are also everyday words - never fuzzy-corrected into ("color" must not become "cooler")
+const FUZZY_BRAND_EXCLUDE = new Set(['arc', 'cooler', 'western']);
+
+// Greek → Latin (digraphs first, accents already stripped)
+const GREEK_DIGRAPHS: [string, string][] = [
+  ['ου', 'u'], ['μπ', 'b'], ['ντ', 'd'], ['γκ', 'g'], ['γγ', 'ng'], ['τζ', 'tz'], ['τσ', 'ts'],
+  ['αι', 'e'], ['ει', 'i'], ['οι', 'i'], ['αυ', 'av'], ['ευ', 'ev']
+];
+const GREEK_LETTERS: Record<string, string> = {
+  'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th', 'ι': 'i', 'κ': 'k', 'λ': 'l', 'μ': 'm',
+  'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p', 'ρ': 'r', 'σ': 's', 'ς': 's', 'τ': 't', 'υ': 'i', 'φ': 'f', 'χ': 'h',
+  'ψ': 'ps', 'ω': 'o'
+};
+const CYRILLIC_LETTERS: Record<string, string> = {
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'yo', 'ж': 'zh', 'з': 'z', 'и': 'i', 'й': 'y',
+  'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't', 'у': 'u', 'ф': 'f',
+  'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu', 'я': 'ya'
+};
+
+// Fuzzy targets with their phonetic keys (built on first use)
+let fuzzyTargets: { word: string; key: string }[] | null = null;
+
+// Helper: Lowercase and strip accents for dictionary lookups ("σάμσουνγκ" → "σαμσουνγκ")
+function foldWord(word: string): string {
+  return word.toLowerCase().normalize('NFD').replace(REGEX_DIACRITICS, '');
+}
+
+// Helper: Transliterate a folded Greek or Cyrillic word to Latin letters
+function transliterate(word: string): string {
+  let latin = word;
+  for (const [greek, replacement] of GREEK_DIGRAPHS) {
+    latin = latin.split(greek).join(replacement);
+  }
+  return [...latin].map(ch => GREEK_LETTERS[ch] ?? CYRILLIC_LETTERS[ch] ?? ch).join('');
+}
+
+// Helper: Rough phonetic key so spellings that sound alike compare equal ("logitec", "lotzitek" → "lojitik")
+function phoneticKey(latin: string): string {
+  let key = latin.toLowerCase()
+    .replace(/ch|ck/g, 'k').replace(/ph/g, 'f').replace(/th/g, 't').replace(/gh/g, 'g').replace(/sh/g, 's')
+    .replace(/c(?=[eiy])/g, 's').replace(/[cq]/g, 'k').replace(/x/g, 'ks')
+    .replace(/g(?=[eiy])/g, 'j').replace(/tz|dz|dj|tj/g, 'j')
+    .replace(/ou/g, 'u').replace(/w/g, 'v').replace(/z/g, 's').replace(/h/g, '');
+  if (key.length > 3) key = key.replace(/e$/, '');
+  return key.replace(/[eiy]/g, 'i').replace(/(.)\1+/g, '$1');
+}
+
+// Helper: Levenshtein distance between two short strings
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Helper: Closest brand or model name for a spoken word (null when nothing is close enough)
+// Longer words tolerate more distance; Latin words must also start with the same sound
+function closestKnownWord(latin: string, sameStart: boolean): string | null {
+  if (!fuzzyTargets) {
+    fuzzyTargets = [...TECH_BRANDS, ...MODEL_TOKENS]
+      .filter(w => w.length >= 3 && !FUZZY_BRAND_EXCLUDE.has(w))
+      .map(word => ({ word, key: phoneticKey(word) }));
+  }
+
+  const key = phoneticKey(latin);
+  if (key.length < 3) return null;
+  const maxDistance = key.length >= 8 ? 2 : key.length >= 5 ? 1 : 0;
+
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const target of fuzzyTargets) {
+    if (sameStart && target.key[0] !== key[0]) continue;
+    const distance = editDistance(key, target.key);
+    if (distance <= maxDistance && distance < bestDistance) {
+      best = target.word;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// Helper: Combine a run of spoken number words into digit groups
+// "fifty seventy" → "5070", "twenty seven" → "27", "twelve hundred" → "1200", "one two eight" → "128"
+function joinNumberWords(run: [number, NumberWordKind][]): string {
+  const groups: number[] = [];
+  let big = 0;
+  let small: number | null = null;
+  let lastValue = 0;
+  let lastKind: NumberWordKind | null = null;
+  let free = 0; // Largest place value still open in the current number
+
+  const flush = () => {
+    if (small !== null || big > 0) groups.push(big + (small ?? 0));
+    big = 0;
+    small = null;
+    free = 0;
+  };
+
+  for (const [value, kind] of run) {
+    if (kind === 'hundred') {
+      if (small !== null && (lastKind === 'unit' || lastKind === 'teen')) {
+        small += lastValue * 99;
+      } else {
+        flush();
+        small = 100;
+      }
+      free = 100;
+    } else if (kind === 'thousand') {
+      if (small === null && big === 0) {
+        big = 1000;
+      } else {
+        big = (big + (small ?? 1)) * 1000;
+        small = null;
+      }
+      free = 1000;
+    } else {
+      const extendsCurrent = (small !== null || big > 0) && free >= NUMBER_WORD_NEEDS[kind];
+      if (!extendsCurrent) flush();
+      small = (small ?? 0) + value;
+      free = kind === 'tens' ? 10 : kind === 'hundreds' ? 100 : 0;
+    }
+    lastValue = value;
+    lastKind = kind;
+  }
+  flush();
+  return groups.join('');
+}
+
+// Helper: Correct a speech transcript before searching
+// Joins spoken numbers and spelled-out acronyms, maps Greek/Cyrillic brand names to Latin,
+// and snaps near-misses to known brands and product lines ("rise en seven" → "ryzen 7")
+export function correctSpeechQuery(query: string): string {
+  // Hyphenated number words ("twenty-seven") count as separate words
+  const words = query.trim().split(REGEX_WHITESPACE).filter(Boolean).flatMap(w => {
+    const parts = w.split('-');
+    return parts.length > 1 && parts.every(p => NUMBER_WORDS[foldWord(p)]) ? parts : [w];
+  });
+  const folded = words.map(foldWord);
+  const letterOf = (w: string) => LETTER_NAMES[w] ?? (REGEX_SINGLE_LATIN_LETTER.test(w) ? w : undefined);
+  const out: string[] = [];
+
+  let i = 0;
+  while (i < words.length) {
+    // Spoken numbers (a lone "one" is usually "the black one", not a model number)
+    if (NUMBER_WORDS[folded[i]]) {
+      let j = i;
+      while (j < words.length && NUMBER_WORDS[folded[j]]) j++;
+      const run = folded.slice(i, j).map(w => NUMBER_WORDS[w]);
+      if (!(run.length === 1 && run[0][0] === 1)) {
+        out.push(joinNumberWords(run));
+        i = j;
+        continue;
+      }
+    }
+
+    // Spelled-out acronyms: longest known acronym starting here
+    if (letterOf(folded[i])) {
+      let j = i;
+      while (j < words.length && letterOf(folded[j])) j++;
+      let matched = 0;
+      for (let end = j; end >= i + 2; end--) {
+        if (SPOKEN_ACRONYMS.has(folded.slice(i, end).map(letterOf).join(''))) {
+          matched = end - i;
+          break;
+        }
+      }
+      if (matched > 0) {
+        out.push(folded.slice(i, i + matched).map(letterOf).join(''));
+        i += matched;
+        continue;
+      }
+    }
+
+    // Brand and model names: transliterated scripts, then near-miss spellings (word pairs first)
+    const isWord = (w: string | undefined) => !!w && REGEX_ALPHA_WORD.test(w) && !SEARCH_STOP_WORDS.has(w);
+    if (isWord(folded[i])) {
+      const latin = transliterate(folded[i]);
+      const isLatin = latin === folded[i];
+      // Plurals of known words are deliberate ("gigabytes", "cores")
+      const known = (w: string) => [w, w.replace(/s$/, '')].some(k => TECH_BRANDS.has(k) || MODEL_TOKENS.has(k));
+
+      if (!known(latin) && isWord(folded[i + 1]) && !known(transliterate(folded[i + 1]))) {
+        const pair = closestKnownWord(latin + transliterate(folded[i + 1]), true);
+        if (pair && phoneticKey(pair).length >= 5) {
+          out.push(pair);
+          i += 2;
+          continue;
+        }
+      }
+
+      if (known(latin) && !isLatin) {
+        out.push(latin);
+        i++;
+        continue;
+      }
+      if (!known(latin)) {
+        const single = closestKnownWord(latin, isLatin);
+        if (single) {
+          out.push(single);
+          i++;
+          continue;
+        }
+      }
+    }
+
+    out.push(words[i]);
+    i++;
+  }
+
+  return out.join(' ');
+}
+
+// Spoken order references ("K as in kilo, X, B...", Greek or Cyrillic letters that look Latin)
+
+// NATO phonetic alphabet, plus Greek letter names callers use for look-alike Latin letters ("ρο" for P)
+const PHONETIC_ALPHABET: Record<string, string> = {
+  alpha: 'a', alfa: 'a', bravo: 'b', charlie: 'c', delta: 'd', echo: 'e', foxtrot: 'f', golf: 'g', hotel: 'h',
+  india: 'i', juliet: 'j', juliett: 'j', kilo: 'k', lima: 'l', mike: 'm', november: 'n', oscar: 'o', papa: 'p',
+  quebec: 'q', romeo: 'r', sierra: 's', tango: 't', uniform: 'u', victor: 'v', whiskey: 'w', whisky: 'w',
+  xray: 'x', yankee: 'y', zulu: 'z',
+  // Greek letter names (accents stripped)
+  'αλφα': 'a', 'βητα': 'b', 'γαμα': 'g', 'γαμμα': 'g', 'δελτα': 'd', 'εψιλον': 'e', 'ζητα': 'z', 'ητα': 'h',
+  'ιωτα': 'i', 'καπα': 'k', 'καππα': 'k', 'λαμδα': 'l', 'λαμβδα': 'l', 'μι': 'm', 'νι': 'n', 'ομικρον': 'o',
+  'ρο': 'p', 'σιγμα': 's', 'ταυ': 't', 'υψιλον': 'y', 'φι': 'f', 'χι': 'x', 'ωμεγα': 'o'
+};
+
+// Greek and Cyrillic letters that look like Latin ones; the second option is how the letter sounds
+const REFERENCE_HOMOGLYPHS: Record<string, string[]> = {
+  'α': ['a'], 'β': ['b', 'v'], 'ε': ['e'], 'ζ': ['z'], 'η': ['h', 'i'], 'ι': ['i'], 'κ': ['k'], 'μ': ['m'],
+  'ν': ['n'], 'ο': ['o'], 'ρ': ['p', 'r'], 'τ': ['t'], 'υ': ['y', 'u'], 'χ': ['x', 'h'],
+  'а': ['a'], 'в': ['b', 'v'], 'е': ['e'], 'к': ['k'], 'м': ['m'], 'н': ['h', 'n'], 'о': ['o'], 'р': ['p', 'r'],
+  'с': ['c', 's'], 'т': ['t'], 'у': ['y', 'u'], 'х': ['x', 'h']
+};
+
+// Digits misheard for the letters they resemble (references are usually all letters)
+const REFERENCE_DIGIT_LETTERS: Record<string, string> = { '0': 'o', '1': 'i', '5': 's', '8': 'b' };
+
+// Separators callers say out loud between groups
+const REFERENCE_FILLER = new Set(['dash', 'hyphen', 'space', 'dot', 'then', 'and', 'παυλα', 'τελεια', 'και', 'тире', 'дефис', 'точка']);
+
+// "K as in kilo" / "κάπα όπως Κώστας" / "к как Киев" - the explanation after the letter is dropped
+const REGEX_REFERENCE_EXPLANATION = /(^|\s)(?:as in|for|like|οπως|σαν|как)\s+\S+/g;
+const REGEX_REFERENCE_SEPARATOR = /[\s,.;:\-_/]+/;
+const REGEX_XRAY = /\bx[\s-]ray\b/g;
+
+// Helper: Turn a spoken or transliterated order reference into candidate references, most likely first
+// "kilo x-ray bravo 4 ..." → KXB4...; "ΚΧΒ..." (Greek letters) → KXB...
+export function parseSpokenReference(spoken: string): string[] {
+  const folded = foldWord(spoken).replace(REGEX_XRAY, 'xray').replace(REGEX_REFERENCE_EXPLANATION, '$1');
+  const positions: string[][] = [];
+
+  for (const token of folded.split(REGEX_REFERENCE_SEPARATOR)) {
+    if (!token || REFERENCE_FILLER.has(token)) continue;
+
+    // A whole word for one character: "kilo", "ρο", "kay", "seven"
+    const letter = PHONETIC_ALPHABET[token] ?? PHONETIC_ALPHABET[transliterate(token)] ?? LETTER_NAMES[token];
+    if (letter) {
+      positions.push([letter]);
+      continue;
+    }
+    const number = NUMBER_WORDS[token];
+    if (number && number[1] === 'unit') {
+      positions.push([String(number[0])]);
+      continue;
+    }
+
+    // Otherwise the characters themselves (Latin, digits or look-alikes)
+    for (const ch of token) {
+      if (/[a-z]/.test(ch)) positions.push([ch]);
+      else if (/\d/.test(ch)) positions.push(REFERENCE_DIGIT_LETTERS[ch] ? [ch, REFERENCE_DIGIT_LETTERS[ch]] : [ch]);
+      else if (REFERENCE_HOMOGLYPHS[ch]) positions.push(REFERENCE_HOMOGLYPHS[ch]);
+      else {
+        const latin = transliterate(ch);
+        if (latin.length !== 1) return [];
+        positions.push([latin]);
+      }
+    }
+  }
+
+  if (positions.length !== ORDER_REFERENCE_LENGTH) return [];
+
+  // Every combination, ranked by how many second-choice readings it uses
+  let combos: { ref: string; cost: number }[] = [{ ref: '', cost: 0 }];
+  for (const options of positions) {
+    combos = combos.flatMap(c => options.map((ch, i) => ({ ref: c.ref + ch, cost: c.cost + i })));
+  }
+  return combos
+    .sort((a, b) => a.cost - b.cost)
+    .slice(0, REFERENCE_CANDIDATE_MAX)
+    .map(c => c.ref.toUpperCase());
+}
+
 // Normalize search query for better matching
 export function normalizeSearchQuery(rawQuery: string): NormalizedQuery {
   const original = rawQuery.trim().toLowerCase();
@@ -321,6 +1564,164 @@ export function normalizeSearchQuery(rawQuery: string): NormalizedQuery {
   };
 }
 
+// Search relevance weights (see scoreSearchResult)
+const SEARCH_WEIGHTS = {
+  modelNumber: 40,   // Each queried model number ("5070") found as a whole word
+  termCoverage: 30,  // Scaled by the share of query terms found in the name
+  brandLead: 25,     // Queried brand is the product's own brand (leading words)
+  brandMention: 5,   // Queried brand only mentioned ("cable for ASUS")
+  brandMissing: -30, // Queried brand not in the name at all
+  specMatch: 15,     // Queried memory/storage size (REGEX_MEM_SPEC) found
+  specMismatch: -15, // Same unit, different size ("8GB" when asked for "16GB")
+  inStock: 10
+};
+const BRAND_LEAD_WORDS = 3; // Brand within the first words of the name is the product's own
+const SEARCH_RANK_POOL = 30; // Live search candidates fetched and scored
+
+// Words that turn a following brand into a compatibility mention ("for ASUS", "για Samsung")
+const ACCESSORY_WORDS = new Set(['for', 'compatible', 'fits', 'για', 'συμβατό', 'συμβατή', 'для', 'совместим']);
+
+// Helper: Score a product name against the query terms (higher is more relevant)
+// quantity: stock on hand when known (only in-stock products get the bonus)
+export function scoreSearchResult(name: string, terms: string[], quantity?: number): number {
+  if (terms.length === 0) return 0;
+
+  // "16 GB" in names and queries compares as "16gb"
+  const words = name.toLowerCase().replace(REGEX_UNIT_SPACE, '$1$2').split(REGEX_NAME_WORDS).filter(Boolean);
+  const query = terms.join(' ').replace(REGEX_UNIT_SPACE, '$1$2');
+  const queryTerms = query.split(' ');
+  const memSpec = query.match(REGEX_MEM_SPEC);
+  const spec = memSpec ? `${memSpec[1]}${memSpec[2].toLowerCase()}` : null;
+  let score = 0;
+
+  // Term coverage: whole words, or prefixes of 3+ letters ("monitor" → "monitors")
+  const matched = queryTerms.filter(t => words.includes(t) || (t.length >= 3 && words.some(w => w.startsWith(t))));
+  score += SEARCH_WEIGHTS.termCoverage * (matched.length / queryTerms.length);
+
+  // Model numbers must match exactly ("5070" is not "5070ti" or "50700")
+  for (const term of queryTerms) {
+    if (REGEX_HAS_DIGIT.test(term) && term !== spec && words.includes(term)) {
+      score += SEARCH_WEIGHTS.modelNumber;
+    }
+  }
+
+  // Brand position: the product's own brand, an accessory "for" it, or absent
+  for (const brand of queryTerms.filter(t => TECH_BRANDS.has(t))) {
+    const position = words.indexOf(brand);
+    if (position < 0) {
+      score += SEARCH_WEIGHTS.brandMissing;
+    } else if (position < BRAND_LEAD_WORDS && !words.slice(0, position).some(w => ACCESSORY_WORDS.has(w))) {
+      score += SEARCH_WEIGHTS.brandLead;
+    } else {
+      score += SEARCH_WEIGHTS.brandMention;
+    }
+  }
+
+  // Memory/storage size
+  if (spec) {
+    const unit = memSpec![2].toLowerCase();
+    if (words.includes(spec)) {
+      score += SEARCH_WEIGHTS.specMatch;
+    } else if (words.some(w => w.endsWith(unit) && REGEX_NUMERIC.test(w.slice(0, -unit.length)))) {
+      score += SEARCH_WEIGHTS.specMismatch;
+    }
+  }
+
+  if (quantity !== undefined && quantity > 0) score += SEARCH_WEIGHTS.inStock;
+
+  return score;
+}
+
+// Structured search filters (from tool arguments or parsed out of the spoken query)
+export type SearchSort = 'relevance' | 'price_asc' | 'price_desc' | 'popularity';
+
+export interface SearchFilters {
+  min_price?: number;    // Euros, VAT included
+  max_price?: number;    // Euros, VAT included
+  category?: string;     // Spoken category name ("monitors", "οθόνες")
+  sort?: SearchSort;
+  in_stock_only?: boolean;
+}
+
+// Spoken price phrases in English, Greek and Russian ("under 1000 euros", "κάτω από 500", "до 300 евро")
+// Amounts followed by a unit ("under 27 inch") are specs, not prices
+const PRICE_AMOUNT = '€?\\s*(\\d+(?:[.,]\\d{3})*)(?!\\d|[.,]\\d)(?:\\s*(?:€|euros?|eur|ευρώ|евро)(?![\\p{L}]))?(?!\\s*(?:inch|inches|gb|tb|mb|hz|mm|cm|w|ίντσ\\p{L}*|дюйм\\p{L}*)(?![\\p{L}]))';
+const WORD_START = '(?<![\\p{L}\\p{N}])';
+const REGEX_PRICE_RANGE = new RegExp(`${WORD_START}(?:between|from|μεταξύ|από|от)\\s+${PRICE_AMOUNT}\\s*(?:and|to|-|και|έως|μέχρι|до)\\s+${PRICE_AMOUNT}`, 'iu');
+const REGEX_PRICE_MAX = new RegExp(`${WORD_START}(?:under|below|less than|up to|no more than|max(?:imum)?|cheaper than|κάτω από|λιγότερο από|έως|μέχρι|до|дешевле|меньше)\\s+${PRICE_AMOUNT}`, 'iu');
+const REGEX_PRICE_MIN = new RegExp(`${WORD_START}(?:over|above|more than|at least|from|πάνω από|περισσότερο από|από|от|дороже|больше)\\s+${PRICE_AMOUNT}`, 'iu');
+
+// Spoken sort and stock phrases
+const SEARCH_SORT_PATTERNS: [RegExp, SearchSort][] = [
+  [/(?<![\p{L}\p{N}])(?:most expensive|priciest|highest price|top of the range|ακριβότερ\p{L}*|самы\p{L}* дорог\p{L}*)(?![\p{L}])/iu, 'price_desc'],
+  [/(?<![\p{L}\p{N}])(?:cheapest|cheap|lowest price|least expensive|φθηνότερ\p{L}*|φτηνότερ\p{L}*|οικονομικότερ\p{L}*|самы\p{L}* дешёв\p{L}*|самы\p{L}* дешев\p{L}*|подешевле)(?![\p{L}])/iu, 'price_asc'],
+  [/(?<![\p{L}\p{N}])(?:most popular|popular|best[- ]?sell(?:ing|ers?)|δημοφιλ\p{L}*|популярн\p{L}*|хит\p{L}* продаж\p{L}*)(?![\p{L}])/iu, 'popularity']
+];
+const REGEX_IN_STOCK = /(?<![\p{L}\p{N}])(?:in stock|available now|σε απόθεμα|διαθέσιμ\p{L}*|в наличии)(?![\p{L}])/iu;
+
+// Helper: Parse a spoken price amount ("1,000" / "1.000" → 1000)
+function parsePriceAmount(text: string): number {
+  return parseInt(text.replace(/[.,]/g, ''), 10);
+}
+
+// Helper: Extract price range, sort order and stock filter from a spoken query
+// Returns the remaining keywords so "under 1000 euros" isn't searched as a model number
+export function parseSearchFilters(rawQuery: string): { query: string; filters: SearchFilters } {
+  let query = rawQuery;
+  const filters: SearchFilters = {};
+
+  const range = query.match(REGEX_PRICE_RANGE);
+  if (range) {
+    const [a, b] = [parsePriceAmount(range[1]), parsePriceAmount(range[2])];
+    filters.min_price = Math.min(a, b);
+    filters.max_price = Math.max(a, b);
+    query = query.replace(range[0], ' ');
+  } else {
+    const max = query.match(REGEX_PRICE_MAX);
+    if (max) {
+      filters.max_price = parsePriceAmount(max[1]);
+      query = query.replace(max[0], ' ');
+    }
+    const min = query.match(REGEX_PRICE_MIN);
+    if (min) {
+      filters.min_price = parsePriceAmount(min[1]);
+      query = query.replace(min[0], ' ');
+    }
+  }
+
+  for (const [pattern, sort] of SEARCH_SORT_PATTERNS) {
+    const match = query.match(pattern);
+    if (match) {
+      filters.sort = sort;
+      query = query.replace(match[0], ' ');
+      break;
+    }
+  }
+
+  const inStock = query.match(REGEX_IN_STOCK);
+  if (inStock) {
+    filters.in_stock_only = true;
+    query = query.replace(inStock[0], ' ');
+  }
+
+  return { query: query.replace(REGEX_WHITESPACE, ' ').trim(), filters };
+}
+
+// Helper: Describe active filters for a spoken "nothing found" answer ("under €1000, in stock")
+export function describeSearchFilters(filters: SearchFilters): string {
+  const parts: string[] = [];
+  if (filters.min_price !== undefined && filters.max_price !== undefined) {
+    parts.push(`between €${filters.min_price} and €${filters.max_price}`);
+  } else if (filters.max_price !== undefined) {
+    parts.push(`under €${filters.max_price}`);
+  } else if (filters.min_price !== undefined) {
+    parts.push(`over €${filters.min_price}`);
+  }
+  if (filters.category) parts.push(`in ${filters.category}`);
+  if (filters.in_stock_only) parts.push('in stock');
+  return parts.join(', ');
+}
+
 // Helper: Verify Retell webhook signature (HMAC-SHA256)
 async function verifyRetellSignature(
   request: Request,
@@ -389,47 +1790,386 @@ async function prestashopFetch(env: Env, endpoint: string, timeoutMs = 5000): Pr
   }
 }
 
-// Helper: Extract product name from multilingual field
-function extractProductName(nameField: any): string {
-  if (Array.isArray(nameField)) {
-    return nameField.find((n: any) => n.id === 1)?.value || nameField[0]?.value || 'Unknown';
-  }
-  return nameField || 'Unknown';
-}
+// Helper: PrestaShop API create (XML body) with timeout, returns the created record as JSON
+async function prestashopPost(env: Env, endpoint: string, xml: string, timeoutMs = 5000): Promise<any> {
+  const url = `${env.PRESTASHOP_URL}${endpoint}${endpoint.includes('?') ? '&' : '?'}output_format=JSON`;
 
-// Helper: Make product name TTS-friendly (fix pronunciation issues)
-export function makeSpeechFriendly(name: string): string {
-  return name
-    // Fix model numbers like "G8" → "G 8" (not "grams")
-    .replace(REGEX_G_MODEL, 'G $1')
-    // Fix storage/RAM: "16GB" → "16 gigabytes", "256GB" → "256 gigabytes"
-    .replace(REGEX_GB, '$1 gigabytes')
-    .replace(REGEX_TB, '$1 terabytes')
-    .replace(REGEX_MB, '$1 megabytes')
-    // Fix RAM type: "DDR4" → "D D R 4"
-    .replace(REGEX_DDR, 'D D R $1')
-    // Fix processor names: "i5-1145G7" → "i5 1145 G 7"
-    .replace(REGEX_PROC_FULL, 'i$1 $2 G $3')
-    .replace(REGEX_PROC_SHORT, 'i$1 $2')
-    // Fix SSD pronunciation
-    .replace(/\bSSD\b/g, 'S S D')
-    // Fix common abbreviations
-    .replace(/\bHDD\b/g, 'H D D')
-    .replace(/\bLCD\b/g, 'L C D')
-    .replace(/\bLED\b/g, 'L E D')
-    .replace(/\bUSB\b/g, 'U S B')
-    .replace(/\bHDMI\b/g, 'H D M I');
-}
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
-// Helper: Shorten product name for listings (brand + model only)
-export function shortenForListing(name: string): string {
-  // Take first 4-5 words, skip specs like dimensions, colors, etc.
-  const words = name.split(/[\s,\-–]+/).filter(w => w.length > 0);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': getAuthHeader(env.PRESTASHOP_API_KEY),
+        'Content-Type': 'application/xml'
+      },
+      body: xml,
+      signal: controller.signal
+    });
 
-  // Find where specs start (numbers with units, dimensions, etc.)
-  let cutoff = words.length;
-  for (let i = 0; i < words.length; i++) {
-    // Stop at technical specs (RAM, storage, dimensions, etc.)
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error body');
+      console.error(`PrestaShop API error: ${response.status} - ${errorText.substring(0, 500)}`);
+      throw new Error(`PrestaShop API error: ${response.status}`);
+    }
+
+    return response.json().catch(() => ({}));
+  } catch (error: any) {
+    clearTimeout(timeoutId);
+    if (error.name === 'AbortError') {
+      throw new Error(`PrestaShop API timeout after ${timeoutMs}ms`);
+    }
+    throw error;
+  }
+}
+
+// Helper: Pick a value from a PrestaShop multilingual field (falls back to the default language)
+function pickLanguageValue(field: any, languageId: number = DEFAULT_LANGUAGE_ID): string | undefined {
+  if (Array.isArray(field)) {
+    // JSON output may return language IDs as strings
+    return field.find((n: any) => Number(n.id) === languageId)?.value ||
+           field.find((n: any) => Number(n.id) === DEFAULT_LANGUAGE_ID)?.value ||
+           field[0]?.value ||
+           undefined;
+  }
+  return field || undefined;
+}
+
+// Helper: Extract product name from multilingual field (caller's language, falling back to default)
+function extractProductName(nameField: any, languageId: number = DEFAULT_LANGUAGE_ID): string {
+  return pickLanguageValue(nameField, languageId) || 'Unknown';
+}
+
+// Helper: Normalize a language hint ("el-GR", "greek", "ru") to a caller language (Greek when unknown)
+export function normalizeLanguage(input?: string): CallerLanguage {
+  if (!input) return DEFAULT_CALLER_LANGUAGE;
+  const key = input.trim().toLowerCase();
+  return LANGUAGE_ALIASES[key] || LANGUAGE_ALIASES[key.split(/[-_]/)[0]] || DEFAULT_CALLER_LANGUAGE;
+}
+
+// Helper: Caller language from the tool argument, falling back to call metadata
+function callerLanguage(args: { language?: string }, call: CallContext): CallerLanguage {
+  return normalizeLanguage(args.language || call.language);
+}
+
+// Helper: Get PrestaShop language ID for a caller language (cached, falls back to default)
+async function getLanguageId(env: Env, language: CallerLanguage): Promise<number> {
+  const now = Date.now();
+
+  if (now - languageCacheTime < CARRIER_CACHE_TTL && languageCache.size > 0) {
+    return languageCache.get(language) || DEFAULT_LANGUAGE_ID;
+  }
+
+  try {
+    const data = await prestashopFetch(env, `/languages?display=[id,iso_code]`);
+    languageCache = new Map();
+    languageCacheTime = now;
+
+    for (const lang of (data.languages || []) as PrestaShopLanguage[]) {
+      const code = LANGUAGE_ALIASES[(lang.iso_code || '').toLowerCase()];
+      if (code && !languageCache.has(code)) {
+        languageCache.set(code, parseInt(lang.id, 10));
+      }
+    }
+
+    return languageCache.get(language) || DEFAULT_LANGUAGE_ID;
+  } catch (error) {
+    console.warn('getLanguageId failed for language', language, error);
+    return DEFAULT_LANGUAGE_ID;
+  }
+}
+
+// Helper: Load order state labels in the caller's language (cached, hard-coded map as offline fallback)
+async function getOrderStateLabels(env: Env, language: CallerLanguage): Promise<(stateId: number | string) => string> {
+  const now = Date.now();
+
+  const [languageId] = await Promise.all([
+    getLanguageId(env, language),
+    // Refresh order states if stale (single call, reused across requests)
+    now - orderStateCacheTime < CARRIER_CACHE_TTL && orderStateCache.size > 0
+      ? Promise.resolve()
+      : prestashopFetch(env, `/order_states?display=[id,name]`).then(data => {
+          orderStateCache = new Map();
+          orderStateCacheTime = now;
+          for (const state of (data.order_states || []) as PrestaShopOrderState[]) {
+            orderStateCache.set(parseInt(state.id, 10), state.name);
+          }
+        }).catch(error => {
+          console.warn('getOrderStateLabels failed to load order states', error);
+        })
+  ]);
+
+  return (stateId: number | string) => {
+    const id = typeof stateId === 'number' ? stateId : parseInt(stateId, 10);
+    const name = orderStateCache.has(id) ? pickLanguageValue(orderStateCache.get(id), languageId) : undefined;
+    return name || ORDER_STATES[id] || 'unknown';
+  };
+}
+
+// Spoken units per caller language (Russian nouns take one/few/many plural forms)
+type SpeechUnit = 'gb' | 'tb' | 'mb' | 'ghz' | 'mhz' | 'hz' | 'w' | 'inch';
+const SPEECH_UNITS: Record<CallerLanguage, Record<SpeechUnit, string | [string, string, string]>> = {
+  en: {
+    gb: 'gigabytes', tb: 'terabytes', mb: 'megabytes', ghz: 'gigahertz', mhz: 'megahertz', hz: 'hertz',
+    w: 'watts', inch: 'inch'
+  },
+  el: {
+    gb: 'γκιγκαμπάιτ', tb: 'τεραμπάιτ', mb: 'μεγκαμπάιτ', ghz: 'γκιγκαχέρτζ', mhz: 'μεγκαχέρτζ', hz: 'χερτζ',
+    w: 'βατ', inch: 'ιντσών'
+  },
+  ru: {
+    gb: ['гигабайт', 'гигабайта', 'гигабайт'], tb: ['терабайт', 'терабайта', 'терабайт'],
+    mb: ['мегабайт', 'мегабайта', 'мегабайт'], ghz: ['гигагерц', 'гигагерца', 'гигагерц'],
+    mhz: ['мегагерц', 'мегагерца', 'мегагерц'], hz: ['герц', 'герца', 'герц'],
+    w: ['ватт', 'ватта', 'ватт'], inch: ['дюйм', 'дюйма', 'дюймов']
+  }
+};
+
+// Latin letter names for spelling acronyms in Greek and Russian ("USB" → "γιου ες μπι", "ю эс би")
+const SPOKEN_LETTERS: Record<'el' | 'ru', Record<string, string>> = {
+  el: {
+    A: 'έι', B: 'μπι', C: 'σι', D: 'ντι', E: 'ι', F: 'εφ', G: 'τζι', H: 'έιτς', I: 'άι', J: 'τζέι', K: 'κέι', L: 'ελ',
+    M: 'εμ', N: 'εν', O: 'όου', P: 'πι', Q: 'κιου', R: 'αρ', S: 'ες', T: 'τι', U: 'γιου', V: 'βι', W: 'ντάμπλιου',
+    X: 'εξ', Y: 'γουάι', Z: 'ζεντ'
+  },
+  ru: {
+    A: 'эй', B: 'би', C: 'си', D: 'ди', E: 'и', F: 'эф', G: 'джи', H: 'эйч', I: 'ай', J: 'джей', K: 'кей', L: 'эл',
+    M: 'эм', N: 'эн', O: 'оу', P: 'пи', Q: 'кью', R: 'ар', S: 'эс', T: 'ти', U: 'ю', V: 'ви', W: 'дабл-ю',
+    X: 'экс', Y: 'уай', Z: 'зед'
+  }
+};
+
+// Number words for prices
+const EN_ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven',
+  'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const EN_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const EL_ONES = ['μηδέν', 'ένα', 'δύο', 'τρία', 'τέσσερα', 'πέντε', 'έξι', 'επτά', 'οκτώ', 'εννέα', 'δέκα', 'έντεκα',
+  'δώδεκα', 'δεκατρία', 'δεκατέσσερα', 'δεκαπέντε', 'δεκαέξι', 'δεκαεπτά', 'δεκαοκτώ', 'δεκαεννέα'];
+const EL_ONES_FEMININE: Record<number, string> = { 1: 'μία', 3: 'τρεις', 4: 'τέσσερις', 13: 'δεκατρείς', 14: 'δεκατέσσερις' };
+const EL_TENS = ['', '', 'είκοσι', 'τριάντα', 'σαράντα', 'πενήντα', 'εξήντα', 'εβδομήντα', 'ογδόντα', 'ενενήντα'];
+const EL_HUNDREDS = ['', 'εκατό', 'διακόσια', 'τριακόσια', 'τετρακόσια', 'πεντακόσια', 'εξακόσια', 'επτακόσια',
+  'οκτακόσια', 'εννιακόσια'];
+const RU_ONES = ['ноль', 'один', 'два', 'три', 'четыре', 'пять', 'шесть', 'семь', 'восемь', 'девять', 'десять',
+  'одиннадцать', 'двенадцать', 'тринадцать', 'четырнадцать', 'пятнадцать', 'шестнадцать', 'семнадцать',
+  'восемнадцать', 'девятнадцать'];
+const RU_TENS = ['', '', 'двадцать', 'тридцать', 'сорок', 'пятьдесят', 'шестьдесят', 'семьдесят', 'восемьдесят', 'девяносто'];
+const RU_HUNDREDS = ['', 'сто', 'двести', 'триста', 'четыреста', 'пятьсот', 'шестьсот', 'семьсот', 'восемьсот', 'девятьсот'];
+
+// Helper: Russian plural form for a count (1 гигабайт, 2 гигабайта, 5 гигабайт)
+function russianPlural(n: number, [one, few, many]: [string, string, string]): string {
+  const mod10 = n % 10;
+  const mod100 = n % 100;
+  if (mod10 === 1 && mod100 !== 11) return one;
+  if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return few;
+  return many;
+}
+
+// Helper: Integer in English words ("twelve hundred ninety-nine" - how prices are said aloud)
+function englishNumber(n: number): string {
+  if (n < 20) return EN_ONES[n];
+  if (n < 100) return EN_TENS[Math.floor(n / 10)] + (n % 10 ? `-${EN_ONES[n % 10]}` : '');
+  if (n < 1000) {
+    return `${EN_ONES[Math.floor(n / 100)]} hundred` + (n % 100 ? ` ${englishNumber(n % 100)}` : '');
+  }
+  if (n < 10000 && Math.floor(n / 100) % 10 !== 0) {
+    return `${englishNumber(Math.floor(n / 100))} hundred` + (n % 100 ? ` ${englishNumber(n % 100)}` : '');
+  }
+  return `${englishNumber(Math.floor(n / 1000))} thousand` + (n % 1000 ? ` ${englishNumber(n % 1000)}` : '');
+}
+
+// Helper: Integer in Greek words (feminine forms count thousands: "τρεις χιλιάδες")
+function greekNumber(n: number, feminine = false): string {
+  if (n < 20) return (feminine && EL_ONES_FEMININE[n]) || EL_ONES[n];
+  if (n < 100) return EL_TENS[Math.floor(n / 10)] + (n % 10 ? ` ${greekNumber(n % 10, feminine)}` : '');
+  if (n < 1000) {
+    const hundreds = Math.floor(n / 100);
+    const word = hundreds === 1
+      ? (n % 100 ? 'εκατόν' : 'εκατό')
+      : feminine ? EL_HUNDREDS[hundreds].replace(/α$/, 'ες') : EL_HUNDREDS[hundreds];
+    return word + (n % 100 ? ` ${greekNumber(n % 100, feminine)}` : '');
+  }
+  const thousands = Math.floor(n / 1000);
+  const word = thousands === 1 ? 'χίλια' : `${greekNumber(thousands, true)} χιλιάδες`;
+  return word + (n % 1000 ? ` ${greekNumber(n % 1000, feminine)}` : '');
+}
+
+// Helper: Integer in Russian words (feminine forms count thousands: "две тысячи")
+function russianNumber(n: number, feminine = false): string {
+  if (n < 20) {
+    if (feminine && n === 1) return 'одна';
+    if (feminine && n === 2) return 'две';
+    return RU_ONES[n];
+  }
+  if (n < 100) return RU_TENS[Math.floor(n / 10)] + (n % 10 ? ` ${russianNumber(n % 10, feminine)}` : '');
+  if (n < 1000) return RU_HUNDREDS[Math.floor(n / 100)] + (n % 100 ? ` ${russianNumber(n % 100, feminine)}` : '');
+  const thousands = Math.floor(n / 1000);
+  const word = thousands === 1
+    ? 'тысяча'
+    : `${russianNumber(thousands, true)} ${russianPlural(thousands, ['тысяча', 'тысячи', 'тысяч'])}`;
+  return word + (n % 1000 ? ` ${russianNumber(n % 1000, feminine)}` : '');
+}
+
+// Helper: Euro amount in words the way callers say it
+// "thirty-seven euros twenty", "τριάντα επτά ευρώ είκοσι", "тридцать семь евро двадцать центов"
+export function priceToWords(amount: number, language: CallerLanguage = 'en'): string {
+  const totalCents = Math.round(amount * 100);
+  const euros = Math.floor(totalCents / 100);
+  const cents = totalCents % 100;
+
+  switch (language) {
+    case 'el':
+      if (euros === 0) return `${greekNumber(cents, true)} λεπτά`;
+      return `${greekNumber(euros)} ευρώ` + (cents ? ` ${greekNumber(cents)}` : '');
+    case 'ru': {
+      const centWords = `${russianNumber(cents)} ${russianPlural(cents, ['цент', 'цента', 'центов'])}`;
+      if (euros === 0) return centWords;
+      return `${russianNumber(euros)} евро` + (cents ? ` ${centWords}` : '');
+    }
+    default:
+      if (euros === 0) return `${englishNumber(cents)} cents`;
+      return `${englishNumber(euros)} ${euros === 1 ? 'euro' : 'euros'}` + (cents ? ` ${englishNumber(cents)}` : '');
+  }
+}
+
+// Helper: Spoken forms of a consumer price for tool output (the agent reads these instead of converting "€37.20")
+function spokenPrices(pricing: ConsumerPrice | undefined, language: CallerLanguage) {
+  if (!pricing) return {};
+  return {
+    price_spoken: priceToWords(pricing.amount, language),
+    was_price_spoken: pricing.was_amount !== undefined ? priceToWords(pricing.was_amount, language) : undefined
+  };
+}
+
+// Helper: Spell an acronym letter by letter ("SSD" → "S S D", "ες ες ντι", "эс эс ди")
+function spellLetters(acronym: string, language: CallerLanguage): string {
+  const letters = [...acronym.toUpperCase()];
+  return language === 'en'
+    ? letters.join(' ')
+    : letters.map(ch => SPOKEN_LETTERS[language][ch] ?? ch).join(' ');
+}
+
+// Helper: Make product names and tool text TTS-friendly in the caller's language
+// (units, acronyms, processor and model names, € prices)
+export function makeSpeechFriendly(name: string, language: CallerLanguage = 'en'): string {
+  const unit = (key: SpeechUnit) => (_: string, value: string) => {
+    const forms = SPEECH_UNITS[language][key];
+    const word = Array.isArray(forms) ? russianPlural(parseInt(value, 10), forms) : forms;
+    // Greek and Russian read a decimal comma ("2,4 γκιγκαχέρτζ")
+    return `${language === 'en' ? value : value.replace('.', ',')} ${word}`;
+  };
+  const g = spellLetters('G', language);
+  const i = language === 'en' ? 'i' : `${spellLetters('I', language)} `;
+
+  return name
+    // Prices first, before their digits are touched: "€37.20" → "thirty-seven euros twenty"
+    .replace(REGEX_EURO_PRICE, (_, euros: string, cents?: string) =>
+      priceToWords(parseInt(euros, 10) + (cents ? parseInt(cents.padEnd(2, '0'), 10) / 100 : 0), language))
+    // Fix model numbers like "G8" → "G 8" (not "grams")
+    .replace(REGEX_G_MODEL, `${g} $1`)
+    // Fix storage/RAM: "16GB" → "16 gigabytes", "256GB" → "256 gigabytes"
+    .replace(REGEX_GB, unit('gb'))
+    .replace(REGEX_TB, unit('tb'))
+    .replace(REGEX_MB, unit('mb'))
+    .replace(REGEX_GHZ, unit('ghz'))
+    .replace(REGEX_MHZ, unit('mhz'))
+    .replace(REGEX_HZ, unit('hz'))
+    .replace(REGEX_WATT, unit('w'))
+    .replace(REGEX_INCH, unit('inch'))
+    // Fix RAM type: "DDR4" → "D D R 4"
+    .replace(REGEX_DDR, `${spellLetters('DDR', language)} $1`)
+    // Fix processor names: "i5-1145G7" → "i5 1145 G 7"
+    .replace(REGEX_PROC_FULL, `${i}$1 $2 ${g} $3`)
+    .replace(REGEX_PROC_SHORT, `${i}$1 $2`)
+    // Fix common abbreviations: "SSD" → "S S D"
+    .replace(REGEX_ACRONYM, acronym => spellLetters(acronym, language));
+}
+
+// Term → spoken form per caller language, e.g. { "el": { "ASUS": "έισους" } }
+export type PronunciationLexicon = Partial<Record<CallerLanguage, Record<string, string>>>;
+
+// Built-in pronunciations (KV entries override these per term)
+const DEFAULT_PRONUNCIATIONS: PronunciationLexicon = {
+  en: { ASUS: 'ay-soos', NZXT: 'N Z X T', Gigabyte: 'giga-bite', Zotac: 'zo-tack', Xiaomi: 'show-mee' },
+  el: { ASUS: 'έισους', NZXT: 'εν ζεντ εξ τι', Gigabyte: 'γκιγκαμπάιτ', Zotac: 'ζότακ', Xiaomi: 'σιαόμι' },
+  ru: { ASUS: 'асус', NZXT: 'эн зет икс ти', Gigabyte: 'гигабайт', Zotac: 'зотак', Xiaomi: 'сяоми' }
+};
+
+// Tool result fields that are read aloud and rewritten in place (prices, references, URLs and IDs never are)
+const SPOKEN_RESULT_FIELDS = new Set([
+  'carrier', 'message', 'summary', 'answer', 'latest_reply', 'specs', 'differences'
+]);
+// Names the agent passes back to other tools - kept as they are, the spoken form goes in "<field>_spoken"
+const SPOKEN_COPY_FIELDS = new Set(['name', 'category', 'variant', 'items']);
+
+// Prices and order references inside spoken text - left exactly as they are
+const REGEX_PRONUNCIATION_PROTECTED = /(€\s?\d[\d.,]*|\b[A-Z0-9]{9}\b)/;
+
+// Helper: Replace lexicon terms (whole words, any case) in spoken text, skipping prices and references
+export function applyPronunciation(text: string, terms: Record<string, string>): string {
+  // Longest terms first so "Western Digital" wins over "Western"; numeric terms would rewrite prices
+  const keys = Object.keys(terms)
+    .filter(term => term.trim() && !/^[\d\s.,€]+$/.test(term))
+    .sort((a, b) => b.length - a.length);
+  if (keys.length === 0 || !text) return text;
+
+  const escaped = keys.map(term => term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+  const lookup = new Map(keys.map(term => [term.trim().toLowerCase(), terms[term]]));
+
+  return text
+    .split(REGEX_PRONUNCIATION_PROTECTED)
+    .map((part, i) => i % 2 === 1 ? part : part.replace(pattern, match => lookup.get(match.toLowerCase()) ?? match))
+    .join('');
+}
+
+// Helper: Lexicon terms for a language - built-in defaults with KV overrides (isolate copy for 5 min)
+async function getPronunciations(env: Env, language: CallerLanguage): Promise<Record<string, string>> {
+  const now = Date.now();
+  if (env.PRONUNCIATION && (!pronunciationCache || now - pronunciationCache.time >= PRONUNCIATION_CACHE_TTL)) {
+    try {
+      const lexicon = await env.PRONUNCIATION.get<PronunciationLexicon>(PRONUNCIATION_KEY, 'json');
+      pronunciationCache = { lexicon: lexicon || {}, time: now };
+    } catch (error) {
+      // Keep the last lexicon (or none) until the TTL passes instead of retrying on every request
+      pronunciationCache = { lexicon: pronunciationCache?.lexicon || {}, time: now };
+      console.warn('getPronunciations failed, using built-in pronunciations', error);
+    }
+  }
+  return { ...DEFAULT_PRONUNCIATIONS[language], ...pronunciationCache?.lexicon[language] };
+}
+
+// Helper: Apply the lexicon to every spoken field of a tool result (nested lists included)
+export function pronounceResult(value: unknown, terms: Record<string, string>, spoken = false): unknown {
+  if (typeof value === 'string') return spoken ? applyPronunciation(value, terms) : value;
+  if (Array.isArray(value)) return value.map(item => pronounceResult(item, terms, spoken));
+  if (value && typeof value === 'object') {
+    const fields: [string, unknown][] = [];
+    for (const [key, field] of Object.entries(value)) {
+      if (SPOKEN_COPY_FIELDS.has(key)) {
+        fields.push([key, field]);
+        const pronounced = pronounceResult(field, terms, true);
+        if (JSON.stringify(pronounced) !== JSON.stringify(field)) fields.push([`${key}_spoken`, pronounced]);
+      } else {
+        fields.push([key, pronounceResult(field, terms, SPOKEN_RESULT_FIELDS.has(key))]);
+      }
+    }
+    return Object.fromEntries(fields);
+  }
+  return value;
+}
+
+// Helper: Shorten product name for listings (brand + model only)
+export function shortenForListing(name: string): string {
+  // Take first 4-5 words, skip specs like dimensions, colors, etc.
+  const words = name.split(/[\s,\-–]+/).filter(w => w.length > 0);
+
+  // Find where specs start (numbers with units, dimensions, etc.)
+  let cutoff = words.length;
+  for (let i = 0; i < words.length; i++) {
+    // Stop at technical specs (RAM, storage, dimensions, etc.)
     if (/^\d+\s*(GB|TB|MB|mm|cm|MHz|W|mAh)/i.test(words[i]) ||
         /^\d+x\d+/i.test(words[i]) ||
         /^(RGB|LED|LCD|USB|HDMI|DDR\d)/i.test(words[i])) {
@@ -438,303 +2178,2616 @@ export function shortenForListing(name: string): string {
     }
   }
 
-  // Take brand + model (max 5 words before specs)
-  const short = words.slice(0, Math.min(cutoff, 5)).join(' ');
-  return short;
+  // Take brand + model (max 5 words before specs)
+  const short = words.slice(0, Math.min(cutoff, 5)).join(' ');
+  return short;
+}
+
+// Helper: Format stock result for voice output (DRY helper)
+function formatStockResult(
+  productId: number,
+  productName: string,
+  quantity: number,
+  pricing: ConsumerPrice | undefined,
+  language: CallerLanguage
+) {
+  return {
+    success: true,
+    product_id: productId,
+    name: productName,
+    price: pricing?.price,
+    was_price: pricing?.was_price,
+    ...spokenPrices(pricing, language),
+    quantity,
+    in_stock: quantity > 0,
+    message: quantity > 0 ? STOCK_TEXT[language].inStock(quantity) : STOCK_TEXT[language].outOfStock,
+    note: STOCK_TEXT[language].note
+  };
+}
+
+// Helper: Normalize a phone number to E.164 (+357 default, Greek and Russian formats recognized)
+// Returns null when the number is too short or doesn't match a known national format
+export function normalizePhoneNumber(raw: string): string | null {
+  const trimmed = raw.trim();
+  let digits = trimmed.replace(REGEX_NON_DIGIT, '');
+  let international = trimmed.startsWith('+');
+
+  // International call prefix "00" (e.g. 0035799123456)
+  if (!international && digits.startsWith('00')) {
+    digits = digits.slice(2);
+    international = true;
+  }
+
+  if (international) {
+    return digits.length >= PHONE_MIN_DIGITS && digits.length <= PHONE_MAX_DIGITS ? `+${digits}` : null;
+  }
+
+  if (REGEX_PHONE_CY.test(digits)) return `+357${digits}`;
+  if (REGEX_PHONE_GR.test(digits)) return `+30${digits}`;
+  if (REGEX_PHONE_RU_TRUNK.test(digits)) return `+7${digits.slice(1)}`;
+  if (REGEX_PHONE_RU.test(digits)) return `+7${digits}`;
+  if (REGEX_PHONE_INTL_BARE.test(digits)) return `+${digits}`;
+  return null;
+}
+
+// Helper: Find customers whose address phone or mobile normalizes to the same E.164 number
+export function matchCustomersByPhone(addresses: PrestaShopAddress[], e164: string): number[] {
+  const customerIds = new Set<number>();
+  for (const address of addresses) {
+    for (const stored of [address.phone, address.phone_mobile]) {
+      if (stored && normalizePhoneNumber(stored) === e164) {
+        customerIds.add(parseInt(address.id_customer, 10));
+      }
+    }
+  }
+  return [...customerIds].sort((a, b) => a - b);
+}
+
+// Helper: LIKE pattern for the trailing digits of a number, tolerating stored separators ("99 12 34 56")
+export function phoneSearchPattern(e164: string): string {
+  return `%${e164.slice(-PHONE_SEARCH_TAIL).split('').join('%')}%`;
+}
+
+// Helper: Resolve customer ID from email or phone (shared by order lookup tools)
+async function resolveCustomerId(
+  env: Env,
+  args: { email?: string; phone?: string }
+): Promise<{ success: true; customerId: number } | { success: false; message: string }> {
+  if (args.email) {
+    // Validate email format
+    if (!isValidEmail(args.email)) {
+      return { success: false, message: 'That doesn\'t look like a valid email address. Please try again.' };
+    }
+
+    const customers = await prestashopFetch(env, `/customers?filter[email]=${encodeURIComponent(args.email)}&display=[id]`);
+    if (!customers.customers?.length) {
+      return { success: false, message: `No customer found with email ${args.email}` };
+    }
+    return { success: true, customerId: customers.customers[0].id };
+  }
+
+  if (args.phone) {
+    const e164 = normalizePhoneNumber(args.phone);
+    if (!e164) {
+      return { success: false, message: 'That phone number seems incomplete. Could you say the full number, or give me your email instead?' };
+    }
+
+    // Prefilter by the trailing digits (stored formats vary), checking phone and phone_mobile IN PARALLEL
+    // This saves ~100-150ms compared to sequential lookups
+    const pattern = encodeURIComponent(phoneSearchPattern(e164));
+    const [phoneAddresses, mobileAddresses] = await Promise.all([
+      prestashopFetch(env, `/addresses?filter[phone]=${pattern}&filter[deleted]=0&display=[id_customer,phone,phone_mobile]`),
+      prestashopFetch(env, `/addresses?filter[phone_mobile]=${pattern}&filter[deleted]=0&display=[id_customer,phone,phone_mobile]`)
+    ]);
+
+    // Exact match on the normalized number, so partial numbers can't hit the wrong customer
+    const customerIds = matchCustomersByPhone(
+      [...(phoneAddresses.addresses || []), ...(mobileAddresses.addresses || [])],
+      e164
+    );
+
+    if (customerIds.length === 0) {
+      return { success: false, message: `No customer found with phone number ${args.phone}. Try your email or order reference instead.` };
+    }
+    if (customerIds.length > 1) {
+      return { success: false, message: 'That phone number is linked to more than one account. Could you give me your email or order reference instead?' };
+    }
+    return { success: true, customerId: customerIds[0] };
+  }
+
+  return { success: false, message: 'Please provide an email or phone number' };
+}
+
+// Helper: Summarize order rows for voice ("2x Dell XPS 13", max VOICE_ITEM_LIMIT)
+function summarizeOrderItems(order: PrestaShopOrder): string[] {
+  const items: string[] = [];
+  for (const row of getOrderRows(order).slice(0, VOICE_ITEM_LIMIT)) {
+    if (row.product_name) {
+      const qty = parseInt(row.product_quantity, 10) || 1;
+      items.push(qty > 1 ? `${qty}x ${shortenForListing(row.product_name)}` : shortenForListing(row.product_name));
+    }
+  }
+  return items;
+}
+
+// Identity answers the caller can give to unlock order details
+export interface IdentityAnswers {
+  last_name?: string;
+  postcode?: string;
+  total_digits?: string | number; // Order total in euros and cents, e.g. "34990" for €349.90
+}
+
+// What we know about the customer on file (from customer, address and order records)
+export interface IdentityRecord {
+  lastnames: string[];
+  postcodes: string[];
+  totals: string[];
+}
+
+// Helper: Normalize a name for comparison (case, accents, spacing)
+function normalizeIdentityText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(REGEX_DIACRITICS, '')
+    .toLowerCase()
+    .replace(REGEX_WHITESPACE, ' ')
+    .trim();
+}
+
+// Helper: Check the caller's answers against the record on file (any one correct answer is enough)
+export function matchesIdentity(record: IdentityRecord, answers: IdentityAnswers): boolean {
+  if (answers.last_name) {
+    const spoken = normalizeIdentityText(answers.last_name);
+    if (spoken && record.lastnames.some(name => normalizeIdentityText(name) === spoken)) {
+      return true;
+    }
+  }
+
+  if (answers.postcode) {
+    const spoken = String(answers.postcode).replace(REGEX_WHITESPACE, '').toUpperCase();
+    if (spoken && record.postcodes.some(code => code.replace(REGEX_WHITESPACE, '').toUpperCase() === spoken)) {
+      return true;
+    }
+  }
+
+  if (answers.total_digits !== undefined && answers.total_digits !== '') {
+    // The whole total as written on the invoice, e.g. "349.90" → "34990" - part of it is guessable
+    const raw = String(answers.total_digits).trim();
+    const spoken = (REGEX_DECIMAL_MARK.test(raw) ? parseFloat(raw.replace(',', '.')).toFixed(2) : raw)
+      .replace(REGEX_NON_DIGIT, '').replace(REGEX_LEADING_ZEROS, '');
+    const matched = spoken !== '' && record.totals.some(total =>
+      parseFloat(total).toFixed(2).replace(REGEX_NON_DIGIT, '').replace(REGEX_LEADING_ZEROS, '') === spoken);
+    if (matched) return true;
+  }
+
+  return false;
+}
+
+// Helper: Check whether this call has already verified the given customer
+export function isCallerVerified(callId: string | undefined, customerId: number): boolean {
+  if (!callId) return false;
+  const entry = callVerifications.get(callId);
+  if (!entry || (Date.now() - entry.time) >= CALL_VERIFICATION_TTL) return false;
+  return entry.customerIds.has(customerId);
+}
+
+// Helper: Remember that this call verified the given customer
+export function markCallerVerified(callId: string | undefined, customerId: number): void {
+  if (!callId) return;
+  const now = Date.now();
+  const entry = callVerifications.get(callId);
+
+  if (entry && (now - entry.time) < CALL_VERIFICATION_TTL) {
+    entry.customerIds.add(customerId);
+    return;
+  }
+
+  // FIFO eviction (oldest call removed when full)
+  if (callVerifications.size >= CALL_VERIFICATION_MAX) {
+    const oldestKey = callVerifications.keys().next().value;
+    if (oldestKey !== undefined) callVerifications.delete(oldestKey);
+  }
+  callVerifications.set(callId, { customerIds: new Set([customerId]), failures: 0, time: now });
+}
+
+// Helper: Keys wrong answers are counted under - the call and what is being verified ("customer:12", "ticket:34")
+// Flat Retell payloads carry no call ID, so the account alone still stops unlimited guessing
+export function verificationKeys(call: CallContext, subject: string): string[] {
+  return call.callId ? [call.callId, subject] : [subject];
+}
+
+// Helper: Check whether a call or account used up its verification attempts (this isolate's count)
+export function isVerificationLocked(key: string | undefined): boolean {
+  if (!key) return false;
+  const entry = callVerifications.get(key);
+  return !!entry && (Date.now() - entry.time) < CALL_VERIFICATION_TTL && entry.failures >= VERIFY_MAX_FAILURES;
+}
+
+// Helper: Count wrong verification answers for a call or account (this isolate's count)
+export function recordVerificationFailure(key: string | undefined, failures = 1): void {
+  if (!key) return;
+  const now = Date.now();
+  const entry = callVerifications.get(key);
+
+  if (entry && (now - entry.time) < CALL_VERIFICATION_TTL) {
+    entry.failures += failures;
+    return;
+  }
+
+  if (callVerifications.size >= CALL_VERIFICATION_MAX) {
+    const oldestKey = callVerifications.keys().next().value;
+    if (oldestKey !== undefined) callVerifications.delete(oldestKey);
+  }
+  callVerifications.set(key, { customerIds: new Set(), failures, time: now });
+}
+
+// Durable Object: one instance per call or account - counts wrong verification answers for every isolate
+export class VerificationAttempts {
+  constructor(private state: DurableObjectState, private env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { action } = await request.json<{ action: 'check' | 'fail' }>();
+    let failures = (await this.state.storage.get<number>('failures')) || 0;
+    if (action === 'fail') {
+      failures++;
+      await this.state.storage.put('failures', failures);
+      await this.state.storage.setAlarm(Date.now() + CALL_VERIFICATION_TTL);
+    }
+    return new Response(JSON.stringify({ locked: failures >= VERIFY_MAX_FAILURES }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // The lockout has run its course
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+// Helper: Ask the VerificationAttempts object for a key to check or count a failure
+async function verificationAttempts(namespace: DurableObjectNamespace, key: string, action: 'check' | 'fail'): Promise<boolean> {
+  const attempts = namespace.get(namespace.idFromName(key));
+  const response = await attempts.fetch('https://verification-attempts/', { method: 'POST', body: JSON.stringify({ action }) });
+  return (await response.json<{ locked: boolean }>()).locked;
+}
+
+// Helper: Whether any key is locked - this isolate first, then the shared count (mirrored here once locked)
+async function verificationLocked(env: Env, keys: string[]): Promise<boolean> {
+  if (keys.some(isVerificationLocked)) return true;
+  if (!env.VERIFY_ATTEMPTS) return false;
+
+  try {
+    const locked = await Promise.all(keys.map(key => verificationAttempts(env.VERIFY_ATTEMPTS!, key, 'check')));
+    keys.forEach((key, i) => { if (locked[i]) recordVerificationFailure(key, VERIFY_MAX_FAILURES); });
+    return locked.some(Boolean);
+  } catch (error) {
+    console.warn('verificationLocked failed, using this isolate\'s count:', error);
+    return false;
+  }
+}
+
+// Helper: Count a wrong answer under every key, here and in the shared count
+async function countVerificationFailure(env: Env, keys: string[]): Promise<void> {
+  keys.forEach(key => recordVerificationFailure(key));
+  if (!env.VERIFY_ATTEMPTS) return;
+
+  try {
+    await Promise.all(keys.map(key => verificationAttempts(env.VERIFY_ATTEMPTS!, key, 'fail')));
+  } catch (error) {
+    console.warn('countVerificationFailure failed, counted in this isolate only:', error);
+  }
+}
+
+// Helper: Verify the caller owns a customer account (uses call state, then the caller's answers)
+async function verifyCaller(
+  env: Env,
+  call: CallContext,
+  customerId: number,
+  answers: IdentityAnswers,
+  orderTotals: string[]
+): Promise<boolean> {
+  if (isCallerVerified(call.callId, customerId)) return true;
+  if (!answers.last_name && !answers.postcode && !answers.total_digits) return false;
+  const keys = verificationKeys(call, `customer:${customerId}`);
+  if (await verificationLocked(env, keys)) return false;
+
+  try {
+    // Fetch customer and addresses IN PARALLEL (only when the caller gave answers)
+    const [customerData, addressData] = await Promise.all([
+      prestashopFetch(env, `/customers/${customerId}?display=[id,lastname]`),
+      prestashopFetch(env, `/addresses?filter[id_customer]=[${customerId}]&display=[id_customer,lastname,postcode]`)
+    ]);
+
+    const customer: PrestaShopCustomer | undefined = customerData.customers?.[0] || customerData.customer;
+    const addresses: PrestaShopAddress[] = addressData.addresses || [];
+
+    const record: IdentityRecord = {
+      lastnames: [customer?.lastname, ...addresses.map(a => a.lastname)].filter((n): n is string => !!n),
+      postcodes: addresses.map(a => a.postcode).filter((c): c is string => !!c),
+      totals: orderTotals
+    };
+
+    const verified = matchesIdentity(record, answers);
+    if (verified) markCallerVerified(call.callId, customerId);
+    else await countVerificationFailure(env, keys);
+    return verified;
+  } catch (error) {
+    console.warn('verifyCaller failed for customer', customerId, error);
+    return false;
+  }
+}
+
+// Helper: Voice message asking for verification (wording depends on whether answers were wrong)
+function verificationMessage(answers: IdentityAnswers & { language?: string }, call: CallContext, customerId: number): string {
+  const text = VERIFY_TEXT[callerLanguage(answers, call)];
+  if (verificationKeys(call, `customer:${customerId}`).some(isVerificationLocked)) return text.locked;
+  return answers.last_name || answers.postcode || answers.total_digits ? text.mismatch : text.ask;
+}
+
+// Helper: Find an order by a typed or spoken reference - every likely reading is tried in one /orders call
+async function findOrderByReference<T extends { reference: string }>(
+  env: Env,
+  reference: string,
+  display: string
+): Promise<{ success: true; order: T } | { success: false; message: string }> {
+  const trimmed = reference.trim();
+  const candidates = isValidOrderReference(trimmed)
+    ? [trimmed.toUpperCase(), ...parseSpokenReference(trimmed).filter(c => c !== trimmed.toUpperCase())]
+    : parseSpokenReference(trimmed);
+  if (candidates.length === 0) {
+    return { success: false, message: 'Order reference should be 9 characters like ABCDEFGHI. Please check and try again.' };
+  }
+
+  const data = await prestashopFetch(env, `/orders?filter[reference]=[${candidates.join('|')}]&display=${display}`);
+  const orders = (data.orders || []) as T[];
+  // Most likely reading wins when several exist
+  const order = candidates
+    .map(ref => orders.find(o => o.reference?.toUpperCase() === ref))
+    .find(o => o !== undefined);
+  if (!order) {
+    return { success: false, message: `No order found with reference ${candidates[0]}` };
+  }
+  return { success: true, order };
+}
+
+// Helper: Find an order by reference, or the latest order for an email/phone (shared by order tools)
+async function lookupOrder(
+  env: Env,
+  args: { reference?: string; email?: string; phone?: string }
+): Promise<{ success: true; order: PrestaShopOrder } | { success: false; message: string }> {
+  if (args.reference) {
+    // Fetch order with minimal fields for performance
+    return findOrderByReference<PrestaShopOrder>(env, args.reference, ORDER_DISPLAY_FIELDS);
+  }
+
+  if (args.email || args.phone) {
+    const customer = await resolveCustomerId(env, args);
+    if (!customer.success) return customer;
+
+    // Get latest order with minimal fields for performance
+    const orders = await prestashopFetch(env, `/orders?filter[id_customer]=${customer.customerId}&display=${ORDER_DISPLAY_FIELDS}&sort=[id_DESC]&limit=1`);
+    if (!orders.orders?.length) {
+      return { success: false, message: args.email ? 'No orders found for this customer' : 'No orders found for this phone number' };
+    }
+    return { success: true, order: orders.orders[0] };
+  }
+
+  return { success: false, message: 'Please provide an order reference number, email, or phone number' };
+}
+
+// Tool: Get Order Status (optimized - includes order items for "what did I order?" questions)
+async function getOrderStatus(
+  env: Env,
+  args: { reference?: string; email?: string; phone?: string; language?: string } & IdentityAnswers,
+  call: CallContext = {}
+) {
+  try {
+    const lookup = await lookupOrder(env, args);
+    if (!lookup.success) return lookup;
+    const order = lookup.order;
+
+    // Verify caller and load state labels IN PARALLEL
+    const customerId = parseInt(String(order.id_customer), 10);
+    const [verified, stateLabel] = await Promise.all([
+      verifyCaller(env, call, customerId, args, [order.total_paid]),
+      getOrderStateLabels(env, callerLanguage(args, call))
+    ]);
+
+    // Unverified callers only get the coarse status
+    if (!verified) {
+      return {
+        success: true,
+        verified: false,
+        reference: order.reference,
+        status: stateLabel(order.current_state),
+        message: verificationMessage(args, call, customerId)
+      };
+    }
+
+    // Extract order items for "what did I order?" questions
+    const items = summarizeOrderItems(order);
+
+    return {
+      success: true,
+      verified: true,
+      reference: order.reference,
+      status: stateLabel(order.current_state),
+      total: `€${parseFloat(order.total_paid).toFixed(2)}`,
+      date: new Date(order.date_add).toLocaleDateString('en-GB'),
+      payment: order.payment,
+      items: items.length > 0 ? items : undefined,
+      item_count: items.length > 0 ? items.length : undefined
+    };
+  } catch (error) {
+    console.error('getOrderStatus error:', error);
+    return { success: false, message: 'Unable to retrieve order information. Please try again.' };
+  }
+}
+
+// Order list narrowing filters ("the one from March", "the 40 euro one", "the one with the monitor")
+export interface OrderListFilters {
+  date?: string;     // YYYY-MM-DD, YYYY-MM or DD/MM/YYYY
+  amount?: number;   // Approximate order total in euros
+  product?: string;  // Spoken product hint matched against order rows
+}
+
+// Helper: Check whether an order matches the caller's narrowing hints
+export function matchesOrderFilters(order: PrestaShopOrder, filters: OrderListFilters): boolean {
+  if (filters.date) {
+    const orderDate = (order.date_add || '').slice(0, 10); // "2024-05-01 12:00:00" → "2024-05-01"
+    const dmy = filters.date.trim().match(REGEX_DATE_DMY);
+    const wanted = dmy
+      ? `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`
+      : filters.date.trim();
+    if (!orderDate.startsWith(wanted)) return false;
+  }
+
+  if (filters.amount !== undefined && filters.amount > 0) {
+    // Callers round ("about forty euros"), so allow a small tolerance
+    const total = parseFloat(order.total_paid);
+    const tolerance = Math.max(ORDER_AMOUNT_TOLERANCE, filters.amount * 0.05);
+    if (!(Math.abs(total - filters.amount) <= tolerance)) return false;
+  }
+
+  if (filters.product) {
+    const terms = normalizeSearchQuery(filters.product).terms;
+    if (terms.length > 0 && !getOrderRows(order).some(row => rowMatchesTerms(row, terms))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Helper: Order rows as an array (PrestaShop returns a single row as an object)
+function getOrderRows(order: PrestaShopOrder): OrderRow[] {
+  const rows = order.associations?.order_rows;
+  return rows ? (Array.isArray(rows) ? rows : [rows]) : [];
+}
+
+// Helper: All significant terms must appear in the same order row
+function rowMatchesTerms(row: OrderRow, terms: string[]): boolean {
+  const name = (row.product_name || '').toLowerCase();
+  return terms.every(term => name.includes(term));
+}
+
+// Tool: List Customer Orders (last N orders with optional narrowing by date, amount or product)
+async function listCustomerOrders(
+  env: Env,
+  args: { email?: string; phone?: string; limit?: number; language?: string } & OrderListFilters & IdentityAnswers,
+  call: CallContext = {}
+) {
+  try {
+    if (!args.email && !args.phone) {
+      return { success: false, message: 'Please provide an email or phone number' };
+    }
+
+    const limit = Math.max(1, Math.floor(Math.min(Number(args.limit) || VOICE_ORDER_LIST_DEFAULT, VOICE_ITEM_LIMIT)));
+    const hasFilters = !!(args.date || args.amount || args.product);
+
+    const customer = await resolveCustomerId(env, args);
+    if (!customer.success) return customer;
+
+    // Fetch a wider window when narrowing, so older matching orders are still found
+    const fetchLimit = hasFilters ? ORDER_LIST_FETCH_MAX : limit;
+    const data = await prestashopFetch(env, `/orders?filter[id_customer]=${customer.customerId}&display=${ORDER_DISPLAY_FIELDS}&sort=[id_DESC]&limit=${fetchLimit}`);
+    if (!data.orders?.length) {
+      return { success: false, message: 'No orders found for this customer' };
+    }
+
+    // A spoken total only verifies against the order being asked about (the one dated, else the latest)
+    const allOrders = data.orders as PrestaShopOrder[];
+    const dated = args.date ? allOrders.filter(order => matchesOrderFilters(order, { date: args.date })) : [];
+    const askedAbout = dated.length === 1 ? dated[0] : allOrders[0];
+    const [verified, stateLabel] = await Promise.all([
+      verifyCaller(env, call, customer.customerId, args, [askedAbout.total_paid]),
+      getOrderStateLabels(env, callerLanguage(args, call))
+    ]);
+
+    // Narrowing by amount or product would reveal order contents, so it needs verification
+    const filters: OrderListFilters = verified ? args : { date: args.date };
+    const matching = allOrders
+      .filter(order => matchesOrderFilters(order, filters))
+      .slice(0, limit);
+
+    if (matching.length === 0) {
+      return { success: false, message: 'I couldn\'t find an order matching that description. Could you give me the date, total or one of the products?' };
+    }
+
+    if (!verified) {
+      return {
+        success: true,
+        verified: false,
+        count: matching.length,
+        orders: matching.map(order => ({
+          status: stateLabel(order.current_state),
+          date: new Date(order.date_add).toLocaleDateString('en-GB')
+        })),
+        message: verificationMessage(args, call, customer.customerId)
+      };
+    }
+
+    const orders = matching.map(order => {
+      const items = summarizeOrderItems(order);
+      return {
+        reference: order.reference,
+        status: stateLabel(order.current_state),
+        date: new Date(order.date_add).toLocaleDateString('en-GB'),
+        total: `€${parseFloat(order.total_paid).toFixed(2)}`,
+        items: items.length > 0 ? items : undefined
+      };
+    });
+
+    return {
+      success: true,
+      verified: true,
+      count: orders.length,
+      orders
+    };
+  } catch (error) {
+    console.error('listCustomerOrders error:', error);
+    return { success: false, message: 'Unable to retrieve your orders. Please try again.' };
+  }
+}
+
+// Helper: Current time in Cyprus as PrestaShop writes it ("2024-03-15 10:22:00")
+function nowInCyprus(): string {
+  return new Intl.DateTimeFormat('sv-SE', {
+    timeZone: STORE_TIMEZONE,
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit'
+  }).format(new Date());
+}
+
+// PrestaShop IDs of Cyprus, the euro and our shop (specific prices for others don't apply to callers)
+export interface PriceScope {
+  countryId: number;
+  currencyId: number;
+  shopId: number;
+}
+
+// Helper: Check a specific price rule applies to Cyprus callers paying in euros (0 = any; unknown scope = only "any")
+function inPriceScope(sp: PrestaShopSpecificPrice, scope: PriceScope | null): boolean {
+  const matches = (value: string | undefined, id: number | undefined) =>
+    !value || value === '0' || (id !== undefined && parseInt(value, 10) === id);
+  return matches(sp.id_country, scope?.countryId) &&
+         matches(sp.id_currency, scope?.currencyId) &&
+         matches(sp.id_shop, scope?.shopId);
+}
+
+// Helper: Compute the consumer price (VAT included) with the best active specific price applied
+// Mirrors PrestaShop's rules: fixed price replaces the base, then percentage or amount reduction
+export function computeConsumerPrice(
+  basePrice: number,
+  vatRate: number,
+  specificPrices: PrestaShopSpecificPrice[],
+  now: string,
+  scope: PriceScope | null = null
+): { price: number; was?: number } {
+  const round2 = (n: number) => Math.round(n * 100) / 100;
+  const vat = 1 + vatRate / 100;
+  const regular = round2(basePrice * vat);
+  let best = regular;
+
+  for (const sp of specificPrices) {
+    if (!inPriceScope(sp, scope)) continue;
+    // Date window ("0000-00-00 00:00:00" means open-ended)
+    if (sp.from && sp.from !== PS_ZERO_DATE && sp.from > now) continue;
+    if (sp.to && sp.to !== PS_ZERO_DATE && sp.to < now) continue;
+    if ((parseInt(sp.from_quantity, 10) || 1) > 1) continue; // Bulk pricing doesn't apply to single units
+
+    const fixedPrice = parseFloat(sp.price);
+    const spBase = fixedPrice >= 0 ? fixedPrice : basePrice;
+    const reduction = parseFloat(sp.reduction) || 0;
+
+    let final: number;
+    if (sp.reduction_type === 'percentage') {
+      final = spBase * vat * (1 - reduction);
+    } else if (sp.reduction_tax === '0') {
+      final = (spBase - reduction) * vat;
+    } else {
+      final = spBase * vat - reduction;
+    }
+
+    final = Math.max(0, round2(final));
+    if (final < best) best = final;
+  }
+
+  return best < regular ? { price: best, was: regular } : { price: regular };
+}
+
+// Helper: Load Cyprus VAT rates by tax rules group (cached, standard rate as fallback)
+async function getTaxRates(env: Env): Promise<Map<number, number>> {
+  const now = Date.now();
+
+  if (now - taxRateCacheTime < CARRIER_CACHE_TTL && taxRateCache.size > 0) {
+    return taxRateCache;
+  }
+
+  try {
+    // Country and tax rates IN PARALLEL, then the Cyprus rules linking groups to taxes
+    const [countries, taxes] = await Promise.all([
+      prestashopFetch(env, `/countries?filter[iso_code]=[${CY_COUNTRY_ISO}]&display=[id]`),
+      prestashopFetch(env, `/taxes?display=[id,rate]`)
+    ]);
+    const countryId = countries.countries?.[0]?.id;
+    if (!countryId) throw new Error('Cyprus not found in /countries');
+
+    const rules = await prestashopFetch(env, `/tax_rules?filter[id_country]=[${countryId}]&display=[id_tax_rules_group,id_tax]`);
+    const taxRates = new Map<number, number>();
+    for (const t of taxes.taxes || []) {
+      taxRates.set(parseInt(t.id, 10), parseFloat(t.rate) || 0);
+    }
+
+    taxRateCache = new Map();
+    taxRateCacheTime = now;
+    for (const rule of (rules.tax_rules || []) as PrestaShopTaxRule[]) {
+      const groupId = parseInt(rule.id_tax_rules_group, 10);
+      // First rule per group wins (country-wide rule)
+      if (!taxRateCache.has(groupId)) {
+        taxRateCache.set(groupId, taxRates.get(parseInt(rule.id_tax, 10)) ?? CY_STANDARD_VAT_RATE);
+      }
+    }
+    return taxRateCache;
+  } catch (error) {
+    console.warn('getTaxRates failed, using standard Cyprus VAT', error);
+    return new Map();
+  }
+}
+
+// Helper: Load the Cyprus country and euro currency IDs (cached, null when they can't be loaded)
+async function getPriceScope(env: Env): Promise<PriceScope | null> {
+  const now = Date.now();
+
+  if (now - priceScopeCacheTime < CARRIER_CACHE_TTL && priceScopeCache) {
+    return priceScopeCache;
+  }
+
+  try {
+    const [countries, currencies] = await Promise.all([
+      prestashopFetch(env, `/countries?filter[iso_code]=[${CY_COUNTRY_ISO}]&display=[id]`),
+      prestashopFetch(env, `/currencies?filter[iso_code]=[${CY_CURRENCY_ISO}]&display=[id]`)
+    ]);
+    const countryId = parseInt(countries.countries?.[0]?.id, 10);
+    const currencyId = parseInt(currencies.currencies?.[0]?.id, 10);
+    if (!countryId || !currencyId) throw new Error('Cyprus or EUR not found');
+
+    priceScopeCache = { countryId, currencyId, shopId: STORE_SHOP_ID };
+    priceScopeCacheTime = now;
+    return priceScopeCache;
+  } catch (error) {
+    console.warn('getPriceScope failed, quoting only promotions valid everywhere', error);
+    return null;
+  }
+}
+
+// Helper: Resolve consumer prices for products (VAT + active promotions) in parallel calls
+// Shared by searchProducts, checkProductStock and getProductInfo
+async function getConsumerPrices(
+  env: Env,
+  products: { id: number | string; price: string; id_tax_rules_group?: string }[]
+): Promise<Map<number, ConsumerPrice>> {
+  const ids = products.map(p => Number(p.id));
+  if (ids.length === 0) return new Map();
+
+  const [taxRates, specificPrices, scope] = await Promise.all([
+    getTaxRates(env),
+    getPublicSpecificPrices(env, ids),
+    getPriceScope(env)
+  ]);
+
+  return priceProducts(products, taxRates, specificPrices, nowInCyprus(), scope);
+}
+
+// Helper: Public catalog promotions (not customer-, cart- or variant-specific), all products when no IDs given
+async function getPublicSpecificPrices(env: Env, productIds?: number[]): Promise<PrestaShopSpecificPrice[]> {
+  const productFilter = productIds ? `filter[id_product]=[${productIds.join('|')}]&` : '';
+  try {
+    const data = await prestashopFetch(env, `/specific_prices?${productFilter}filter[id_customer]=[0]&filter[id_cart]=[0]&filter[id_product_attribute]=[0]&filter[id_group]=[0]&display=[id_product,id_group,id_country,id_currency,id_shop,from_quantity,price,reduction,reduction_type,reduction_tax,from,to]`);
+    return (data.specific_prices || []) as PrestaShopSpecificPrice[];
+  } catch (error) {
+    console.warn('getPublicSpecificPrices: specific prices unavailable', error);
+    return [];
+  }
+}
+
+// Helper: Consumer price as spoken by tools ("€37.20", with the regular price when on sale)
+function toConsumerPrice(price: number, was?: number): ConsumerPrice {
+  return {
+    price: `€${price.toFixed(2)}`,
+    was_price: was !== undefined ? `€${was.toFixed(2)}` : undefined,
+    amount: price,
+    was_amount: was
+  };
+}
+
+// Helper: Price products from loaded tax rates and promotions (shared by live lookups and the catalog sync)
+function priceProducts(
+  products: { id: number | string; price: string; id_tax_rules_group?: string }[],
+  taxRates: Map<number, number>,
+  specificPrices: PrestaShopSpecificPrice[],
+  now: string,
+  scope: PriceScope | null
+): Map<number, ConsumerPrice> {
+  const rulesByProduct = new Map<number, PrestaShopSpecificPrice[]>();
+  for (const sp of specificPrices) {
+    const id = Number(sp.id_product);
+    const rules = rulesByProduct.get(id);
+    if (rules) rules.push(sp);
+    else rulesByProduct.set(id, [sp]);
+  }
+
+  const prices = new Map<number, ConsumerPrice>();
+  for (const p of products) {
+    const groupId = parseInt(p.id_tax_rules_group || '0', 10);
+    const vatRate = groupId > 0 ? (taxRates.get(groupId) ?? CY_STANDARD_VAT_RATE) : 0;
+    const { price, was } = computeConsumerPrice(parseFloat(p.price) || 0, vatRate, rulesByProduct.get(Number(p.id)) || [], now, scope);
+    prices.set(Number(p.id), toConsumerPrice(price, was));
+  }
+  return prices;
+}
+
+// Helper: Get cached product info or fetch
+async function getProductInfo(
+  env: Env,
+  productId: number,
+  languageId: number = DEFAULT_LANGUAGE_ID,
+  language: CallerLanguage = 'en'
+): Promise<{ name: string; pricing: ConsumerPrice } | null> {
+  const now = Date.now();
+  const cacheKey = `${language}:${languageId}:${productId}`;
+  const cached = productCache.get(cacheKey);
+
+  if (cached && (now - cached.time) < PRODUCT_CACHE_TTL) {
+    return { name: cached.name, pricing: cached.pricing };
+  }
+
+  try {
+    const product = await prestashopFetch(env, `/products/${productId}?display=${PRODUCT_DISPLAY_FIELDS}`);
+    const productInfo = product.products?.[0] || product.product;
+    if (!productInfo) return null;
+
+    const name = makeSpeechFriendly(extractProductName(productInfo.name, languageId), language);
+    const pricing = (await getConsumerPrices(env, [productInfo])).get(productId)!;
+
+    // Cache with FIFO eviction (oldest entry removed when full)
+    if (productCache.size >= PRODUCT_CACHE_MAX) {
+      const oldestKey = productCache.keys().next().value;
+      if (oldestKey !== undefined) productCache.delete(oldestKey);
+    }
+    productCache.set(cacheKey, { name, pricing, time: now });
+
+    return { name, pricing };
+  } catch (error) {
+    console.warn('getProductInfo failed for product', productId, error);
+    return null;
+  }
+}
+
+// Helper: Find the variants best matching a spoken description ("the 1TB black one")
+// Returns indices of all top-scoring variants (several when the description is ambiguous)
+export function matchVariants(labels: string[], spoken: string): number[] {
+  const tokenize = (text: string) => text
+    .toLowerCase()
+    .replace(REGEX_UNIT_SPACE, '$1$2') // "1 TB" → "1tb"
+    .split(REGEX_VARIANT_SPLIT)
+    .filter(t => t.length > 0 && !SEARCH_STOP_WORDS.has(t));
+
+  const spokenTerms = tokenize(spoken);
+  if (spokenTerms.length === 0) return [];
+
+  let best = 0;
+  let matches: number[] = [];
+  labels.forEach((label, index) => {
+    const labelTerms = new Set(tokenize(label));
+    const score = spokenTerms.filter(t => labelTerms.has(t)).length;
+    if (score > best) {
+      best = score;
+      matches = [index];
+    } else if (score === best && score > 0) {
+      matches.push(index);
+    }
+  });
+  return matches;
+}
+
+// Helper: Load stock for a product and all its variants (combinations) in as few calls as possible
+async function loadProductStock(
+  env: Env,
+  productId: number,
+  languageId: number = DEFAULT_LANGUAGE_ID
+): Promise<{ quantity: number; variants: ProductVariant[] } | null> {
+  // All stock rows (aggregate + per variant) and combinations IN PARALLEL
+  const [stock, combinationData] = await Promise.all([
+    prestashopFetch(env, `/stock_availables?filter[id_product]=[${productId}]&display=[id_product_attribute,quantity]`),
+    prestashopFetch(env, `/combinations?filter[id_product]=[${productId}]&display=[id,associations]`).catch(error => {
+      console.warn('loadProductStock: combinations unavailable for product', productId, error);
+      return {};
+    })
+  ]);
+
+  const stockRows: PrestaShopStockAvailable[] = stock.stock_availables || [];
+  if (stockRows.length === 0) return null;
+
+  // First row per attribute wins (main shop, not B2B)
+  const quantities = new Map<number, number>();
+  for (const row of stockRows) {
+    const attributeId = parseInt(row.id_product_attribute || '0', 10);
+    if (!quantities.has(attributeId)) quantities.set(attributeId, parseInt(row.quantity, 10) || 0);
+  }
+
+  const combinations: PrestaShopCombination[] = combinationData.combinations || [];
+  const aggregate = quantities.get(0) ?? [...quantities.values()].reduce((sum, q) => sum + q, 0);
+  if (combinations.length === 0) {
+    return { quantity: aggregate, variants: [] };
+  }
+
+  // Resolve attribute value names ("Black", "1TB") in a single call
+  const optionIds = new Set<string>();
+  for (const c of combinations) {
+    for (const v of c.associations?.product_option_values || []) optionIds.add(v.id);
+  }
+  const optionNames = new Map<string, string>();
+  if (optionIds.size > 0) {
+    const values = await prestashopFetch(env, `/product_option_values?filter[id]=[${[...optionIds].join('|')}]&display=[id,name]`);
+    for (const v of values.product_option_values || []) {
+      optionNames.set(String(v.id), pickLanguageValue(v.name, languageId) || '');
+    }
+  }
+
+  const variants = combinations.map(c => ({
+    id: parseInt(c.id, 10),
+    label: (c.associations?.product_option_values || [])
+      .map(v => optionNames.get(v.id))
+      .filter(Boolean)
+      .join(' '),
+    quantity: quantities.get(parseInt(c.id, 10)) || 0
+  }));
+
+  return { quantity: aggregate, variants };
+}
+
+// Helper: Detect the brand in a product name (first word found in TECH_BRANDS)
+export function detectBrand(name: string): string | null {
+  for (const word of name.toLowerCase().split(REGEX_NAME_WORDS)) {
+    if (TECH_BRANDS.has(word)) return word;
+  }
+  return null;
+}
+
+// Candidate product for out-of-stock alternatives
+export interface AlternativeCandidate {
+  id: number;
+  name: string;
+  price: number; // Tax-excluded base price, comparable with the original
+  quantity: number;
+}
+
+// Helper: Rank in-stock alternatives - same brand first, then closest price
+export function rankAlternatives(
+  target: { price: number; brand: string | null },
+  candidates: AlternativeCandidate[],
+  max = ALTERNATIVES_MAX
+): AlternativeCandidate[] {
+  return candidates
+    .filter(c => c.quantity > 0)
+    .map(c => ({
+      candidate: c,
+      sameBrand: target.brand !== null && detectBrand(c.name) === target.brand,
+      distance: Math.abs(c.price - target.price)
+    }))
+    .sort((a, b) => Number(b.sameBrand) - Number(a.sameBrand) || a.distance - b.distance)
+    .slice(0, max)
+    .map(r => r.candidate);
+}
+
+// Helper: Find in-stock alternatives from the same default category and a similar price band
+async function findAlternatives(env: Env, productId: number, languageId: number, language: CallerLanguage) {
+  const data = await prestashopFetch(env, `/products/${productId}?display=[id,name,price,id_category_default]`);
+  const product = data.products?.[0] || data.product;
+  if (!product?.id_category_default) return [];
+
+  const basePrice = parseFloat(product.price) || 0;
+  const brand = detectBrand(extractProductName(product.name));
+
+  // Same category, active, within the price band (skip the band for products without a price)
+  const priceFilter = basePrice > 0
+    ? `&filter[price]=[${Math.floor(basePrice * (1 - ALTERNATIVES_PRICE_BAND))},${Math.ceil(basePrice * (1 + ALTERNATIVES_PRICE_BAND))}]`
+    : '';
+  const candidatesData = await prestashopFetch(
+    env,
+    `/products?filter[id_category_default]=[${product.id_category_default}]&filter[active]=[1]${priceFilter}&display=${PRODUCT_DISPLAY_FIELDS}&limit=${ALTERNATIVES_FETCH_MAX}`
+  );
+  const candidates = ((candidatesData.products || []) as any[]).filter(p => Number(p.id) !== productId);
+  if (candidates.length === 0) return [];
+
+  const quantities = await getStockQuantities(env, candidates.map(p => Number(p.id)));
+
+  const ranked = rankAlternatives(
+    { price: basePrice, brand },
+    candidates.map(p => ({
+      id: Number(p.id),
+      name: extractProductName(p.name, languageId),
+      price: parseFloat(p.price) || 0,
+      quantity: quantities.get(Number(p.id)) || 0
+    }))
+  );
+  if (ranked.length === 0) return [];
+
+  const rankedIds = new Set(ranked.map(r => r.id));
+  const prices = await getConsumerPrices(env, candidates.filter(p => rankedIds.has(Number(p.id))));
+
+  return ranked.map(r => ({
+    id: r.id,
+    name: shortenForListing(r.name),
+    price: prices.get(r.id)?.price,
+    price_spoken: prices.has(r.id) ? priceToWords(prices.get(r.id)!.amount, language) : undefined,
+    url: getProductUrl(env, r.id)
+  }));
+}
+
+// Helper: Attach in-stock alternatives to an out-of-stock result (never fails the stock check)
+async function withAlternatives<T extends { in_stock: boolean; message: string }>(
+  env: Env,
+  result: T,
+  productId: number,
+  languageId: number,
+  language: CallerLanguage
+): Promise<T & { alternatives?: { id: number; name: string; price?: string; price_spoken?: string; url: string }[] }> {
+  if (result.in_stock) return result;
+
+  try {
+    const alternatives = await findAlternatives(env, productId, languageId, language);
+    if (alternatives.length === 0) return result;
+    return {
+      ...result,
+      alternatives,
+      message: STOCK_TEXT[language].alternatives(result.message, alternatives.map(a => a.name).join(', '))
+    };
+  } catch (error) {
+    console.warn('findAlternatives failed for product', productId, error);
+    return result;
+  }
+}
+
+// Helper: Stem a category word for matching (no accents, rough plural/case endings in EN/EL/RU)
+function categoryStem(word: string): string {
+  const plain = foldWord(word);
+  return plain.length > 4 ? plain.replace(REGEX_CATEGORY_SUFFIX, '') : plain;
+}
+
+// Helper: Match a spoken category name against the catalog tree (any shop language)
+// Every spoken word must appear in the category name; the closest (fewest extra words) wins
+export function matchCategory(nodes: CategoryNode[], spoken: string): number[] {
+  const spokenStems = spoken.toLowerCase().split(REGEX_NAME_WORDS)
+    .filter(w => w && !SEARCH_STOP_WORDS.has(w))
+    .map(categoryStem);
+  if (spokenStems.length === 0) return [];
+
+  let best: number[] = [];
+  let bestExtra = Infinity;
+  for (const node of nodes) {
+    if (CATEGORY_ROOT_IDS.has(node.id)) continue;
+    for (const name of node.names) {
+      const nameStems = new Set(name.value.split(REGEX_NAME_WORDS).filter(Boolean).map(categoryStem));
+      if (!spokenStems.every(s => nameStems.has(s))) continue;
+      const extra = nameStems.size - new Set(spokenStems).size;
+      if (extra < bestExtra) {
+        best = [node.id];
+        bestExtra = extra;
+      } else if (extra === bestExtra && !best.includes(node.id)) {
+        best.push(node.id);
+      }
+    }
+  }
+  return best;
+}
+
+// Helper: Expand categories with all their subcategories
+export function categoryWithDescendants(nodes: CategoryNode[], ids: number[]): Set<number> {
+  const result = new Set(ids);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const node of nodes) {
+      if (!result.has(node.id) && result.has(node.parentId)) {
+        result.add(node.id);
+        added = true;
+      }
+    }
+  }
+  return result;
+}
+
+// Helper: Load the active category tree (cached, stale copy kept if a refresh fails)
+async function getCategories(env: Env): Promise<Map<number, CategoryNode>> {
+  const now = Date.now();
+
+  if (now - categoryCacheTime < CARRIER_CACHE_TTL && categoryCache.size > 0) {
+    return categoryCache;
+  }
+
+  try {
+    const data = await prestashopFetch(env, `/categories?filter[active]=[1]&display=[id,id_parent,name]`);
+    categoryCache = new Map();
+    categoryCacheTime = now;
+    for (const c of (data.categories || []) as PrestaShopCategory[]) {
+      const names = typeof c.name === 'string'
+        ? [{ languageId: DEFAULT_LANGUAGE_ID, value: c.name }]
+        : c.name.map(n => ({ languageId: parseInt(n.id, 10), value: n.value }));
+      categoryCache.set(parseInt(c.id, 10), {
+        id: parseInt(c.id, 10),
+        parentId: parseInt(c.id_parent, 10),
+        names: names.filter(n => n.value)
+      });
+    }
+  } catch (error) {
+    console.warn('getCategories failed', error);
+  }
+  return categoryCache;
+}
+
+// Helper: Category name in the caller's language (falls back to the default language)
+function categoryName(node: CategoryNode, languageId: number): string {
+  return pickLanguageValue(node.names.map(n => ({ id: n.languageId, value: n.value })), languageId) || 'Other';
+}
+
+// Helper: Product count and price range per subcategory (products in deeper levels count for their branch)
+export function summarizeCategoryPrices(
+  nodes: CategoryNode[],
+  childIds: number[],
+  items: { categoryId: number; amount: number }[]
+): Map<number, { count: number; min: number; max: number }> {
+  const summary = new Map<number, { count: number; min: number; max: number }>();
+  for (const childId of childIds) {
+    const branch = categoryWithDescendants(nodes, [childId]);
+    const amounts = items.filter(i => branch.has(i.categoryId) && i.amount > 0).map(i => i.amount);
+    if (amounts.length === 0) continue;
+    summary.set(childId, { count: amounts.length, min: Math.min(...amounts), max: Math.max(...amounts) });
+  }
+  return summary;
+}
+
+// Helper: Default-combination stock for several products in one call
+async function getStockQuantities(env: Env, productIds: number[]): Promise<Map<number, number>> {
+  const quantities = new Map<number, number>();
+  if (productIds.length === 0) return quantities;
+
+  const stock = await prestashopFetch(
+    env,
+    `/stock_availables?filter[id_product]=[${productIds.join('|')}]&filter[id_product_attribute]=[0]&display=[id_product,quantity]`
+  );
+  for (const row of stock.stock_availables || []) {
+    quantities.set(Number(row.id_product), parseInt(row.quantity, 10) || 0);
+  }
+  return quantities;
+}
+
+// Helper: Units sold per product across the most recent order lines (popularity signal)
+// The webservice exposes no sales counter, so recent order_details stand in for it
+async function getSalesCounts(env: Env, productIds: number[]): Promise<Map<number, number>> {
+  const sales = new Map<number, number>();
+  if (productIds.length === 0) return sales;
+
+  const data = await prestashopFetch(
+    env,
+    `/order_details?filter[product_id]=[${productIds.join('|')}]&display=[product_id,product_quantity]&sort=[id_DESC]&limit=${POPULARITY_SAMPLE_MAX}`
+  );
+  for (const row of data.order_details || []) {
+    const id = Number(row.product_id);
+    sales.set(id, (sales.get(id) || 0) + (parseInt(row.product_quantity, 10) || 0));
+  }
+  return sales;
+}
+
+// Helper: Apply price, category and stock filters to search candidates, then rank and cut to the limit
+// Candidates arrive in relevance order; sorting is stable so ties keep it
+async function applySearchFilters(
+  env: Env,
+  products: any[],
+  filters: SearchFilters,
+  categoryIds: Set<number> | null,
+  limit: number,
+  knownPrices?: Map<number, ConsumerPrice> // From the catalog index - skips the live price lookup
+): Promise<{ products: any[]; prices: Map<number, ConsumerPrice> }> {
+  const sort = filters.sort || 'relevance';
+  const needsPrices = filters.min_price !== undefined || filters.max_price !== undefined || sort.startsWith('price');
+
+  let candidates = categoryIds
+    ? products.filter(p => categoryIds.has(Number(p.id_category_default)))
+    : products;
+
+  // Plain keyword search: price only what will be read out
+  if (!needsPrices && !filters.in_stock_only && sort === 'relevance') {
+    candidates = candidates.slice(0, limit);
+    return { products: candidates, prices: knownPrices ?? await getConsumerPrices(env, candidates) };
+  }
+
+  const ids = candidates.map(p => Number(p.id));
+  const [prices, quantities, sales] = await Promise.all([
+    knownPrices ?? getConsumerPrices(env, candidates),
+    filters.in_stock_only ? getStockQuantities(env, ids) : Promise.resolve(null),
+    sort === 'popularity'
+      ? getSalesCounts(env, ids).catch(error => {
+        console.warn('getSalesCounts failed, keeping relevance order', error);
+        return null;
+      })
+      : Promise.resolve(null)
+  ]);
+
+  candidates = candidates.filter(p => {
+    const amount = prices.get(Number(p.id))?.amount ?? 0;
+    if (filters.min_price !== undefined && amount < filters.min_price) return false;
+    if (filters.max_price !== undefined && amount > filters.max_price) return false;
+    if (quantities && (quantities.get(Number(p.id)) || 0) <= 0) return false;
+    return true;
+  });
+
+  const amountOf = (p: any) => prices.get(Number(p.id))?.amount ?? 0;
+  if (sort === 'price_asc') candidates.sort((a, b) => amountOf(a) - amountOf(b));
+  if (sort === 'price_desc') candidates.sort((a, b) => amountOf(b) - amountOf(a));
+  if (sort === 'popularity' && sales) {
+    candidates.sort((a, b) => (sales.get(Number(b.id)) || 0) - (sales.get(Number(a.id)) || 0));
+  }
+
+  return { products: candidates.slice(0, limit), prices };
+}
+
+// Spoken spec words → words used in PrestaShop feature names
+const SPEC_SYNONYMS: Record<string, string[]> = {
+  ram: ['ram', 'memory'],
+  memory: ['memory', 'ram'],
+  storage: ['storage', 'ssd', 'hdd', 'capacity', 'drive'],
+  ssd: ['ssd', 'storage'],
+  screen: ['screen', 'display', 'panel'],
+  display: ['display', 'screen', 'panel'],
+  backlit: ['backlit', 'backlight', 'backlighting', 'illuminated'],
+  processor: ['processor', 'cpu', 'chipset'],
+  cpu: ['cpu', 'processor'],
+  graphics: ['graphics', 'gpu', 'video'],
+  gpu: ['gpu', 'graphics', 'video'],
+  battery: ['battery', 'autonomy'],
+  weight: ['weight', 'weighs'],
+  heavy: ['weight'],
+  ports: ['ports', 'connectivity', 'interfaces', 'connectors'],
+  wifi: ['wifi', 'wireless', 'wi-fi', 'wlan'],
+  warranty: ['warranty', 'guarantee'],
+  resolution: ['resolution'],
+  refresh: ['refresh', 'hz'],
+  // Greek and Russian spec words (accents folded), matching both native and English feature names
+  'μνημη': ['μνημη', 'ram', 'memory'],
+  'αποθηκευση': ['αποθηκευση', 'αποθηκευτικος', 'δισκος', 'storage', 'ssd', 'capacity'],
+  'δισκος': ['δισκος', 'αποθηκευση', 'storage', 'ssd', 'hdd'],
+  'οθονη': ['οθονη', 'screen', 'display', 'panel'],
+  'επεξεργαστης': ['επεξεργαστης', 'processor', 'cpu'],
+  'καρτα': ['καρτα', 'γραφικων', 'graphics', 'gpu'],
+  'γραφικα': ['γραφικα', 'γραφικων', 'καρτα', 'graphics', 'gpu'],
+  'μπαταρια': ['μπαταρια', 'αυτονομια', 'battery'],
+  'βαρος': ['βαρος', 'weight'],
+  'ζυγιζει': ['βαρος', 'weight'],
+  'θυρες': ['θυρες', 'συνδεσιμοτητα', 'ports', 'connectivity'],
+  'φωτιζομενο': ['φωτιζομενο', 'φωτισμος', 'backlit', 'backlight'],
+  'εγγυηση': ['εγγυηση', 'warranty'],
+  'αναλυση': ['αναλυση', 'resolution'],
+  'память': ['память', 'памяти', 'оперативная', 'ram', 'memory'],
+  'памяти': ['память', 'памяти', 'оперативная', 'ram', 'memory'],
+  'накопитель': ['накопитель', 'диск', 'storage', 'ssd'],
+  'диск': ['диск', 'накопитель', 'storage', 'ssd', 'hdd'],
+  'экран': ['экран', 'дисплеи', 'screen', 'display'],
+  'экрана': ['экран', 'дисплеи', 'screen', 'display'],
+  'процессор': ['процессор', 'processor', 'cpu'],
+  'видеокарта': ['видеокарта', 'графика', 'graphics', 'gpu'],
+  'батарея': ['батарея', 'аккумулятор', 'автономность', 'battery'],
+  'аккумулятор': ['аккумулятор', 'батарея', 'battery'],
+  'вес': ['вес', 'weight'],
+  'весит': ['вес', 'weight'],
+  'порты': ['порты', 'разъемы', 'ports', 'connectivity'],
+  'подсветка': ['подсветка', 'подсветкои', 'backlit', 'backlight'],
+  'гарантия': ['гарантия', 'warranty'],
+  'разрешение': ['разрешение', 'resolution']
+};
+
+// Helper: Strip HTML tags and common entities from PrestaShop descriptions
+export function stripHtml(html: string): string {
+  return html
+    .replace(REGEX_HTML_TAGS, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, '\'')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(REGEX_WHITESPACE, ' ')
+    .trim();
+}
+
+// Helper: Find the spec answering a spoken question ("how much RAM does it have?")
+// Feature names weigh more than values; returns null when nothing relevant matches
+export function answerSpecQuestion(specs: ProductSpec[], question: string): ProductSpec | null {
+  const terms = normalizeSearchQuery(question).terms;
+  if (terms.length === 0) return null;
+
+  // Accents are folded on both sides ("μνήμη" asks about "Μνήμη RAM")
+  const expanded = new Set<string>();
+  for (const term of terms.map(foldWord)) {
+    for (const word of SPEC_SYNONYMS[term] || [term]) expanded.add(word);
+  }
+
+  let best: ProductSpec | null = null;
+  let bestScore = 0;
+  for (const spec of specs) {
+    const nameWords = foldWord(spec.name).split(REGEX_NAME_WORDS);
+    const valueWords = foldWord(spec.value).split(REGEX_NAME_WORDS);
+    let score = 0;
+    for (const word of expanded) {
+      if (nameWords.includes(word)) score += 2;
+      else if (valueWords.includes(word)) score += 1;
+    }
+    if (score > bestScore) {
+      best = spec;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Helper: Load feature names (cached) for the given feature IDs
+async function getFeatureNames(env: Env, featureIds: number[], languageId: number): Promise<Map<number, string>> {
+  const now = Date.now();
+
+  if (now - featureNameCacheTime >= CARRIER_CACHE_TTL) {
+    try {
+      // Single call for all features, reused across requests
+      const data = await prestashopFetch(env, `/product_features?display=[id,name]`);
+      featureNameCache = new Map();
+      featureNameCacheTime = now;
+      for (const f of (data.product_features || []) as PrestaShopProductFeature[]) {
+        featureNameCache.set(parseInt(f.id, 10), f.name);
+      }
+    } catch (error) {
+      console.warn('getFeatureNames failed', error);
+    }
+  } else {
+    // Features added since the last full load - fetch just those and merge them in
+    const missing = featureIds.filter(id => !featureNameCache.has(id));
+    if (missing.length > 0) {
+      try {
+        const data = await prestashopFetch(env, `/product_features?filter[id]=[${missing.join('|')}]&display=[id,name]`);
+        for (const f of (data.product_features || []) as PrestaShopProductFeature[]) {
+          featureNameCache.set(parseInt(f.id, 10), f.name);
+        }
+      } catch (error) {
+        console.warn('getFeatureNames failed for new features', missing, error);
+      }
+    }
+  }
+
+  const names = new Map<number, string>();
+  for (const id of featureIds) {
+    const name = pickLanguageValue(featureNameCache.get(id), languageId);
+    if (name) names.set(id, name);
+  }
+  return names;
+}
+
+// Helper: Load a product's name, short description and feature specs in the caller's language
+async function loadProductSpecs(
+  env: Env,
+  productId: number,
+  languageId: number
+): Promise<{ name: string; description: string; specs: ProductSpec[] } | null> {
+  const data = await prestashopFetch(env, `/products/${productId}?display=[id,name,description_short,associations]`);
+  const product = data.products?.[0] || data.product;
+  if (!product) return null;
+
+  // Feature names (cached) and this product's values IN PARALLEL
+  const links: { id: string; id_feature_value: string }[] = product.associations?.product_features || [];
+  const featureIds = links.map(l => parseInt(l.id, 10));
+  const valueIds = links.map(l => l.id_feature_value);
+  const [featureNames, values] = await Promise.all([
+    getFeatureNames(env, featureIds, languageId),
+    valueIds.length > 0
+      ? prestashopFetch(env, `/product_feature_values?filter[id]=[${valueIds.join('|')}]&display=[id,value]`)
+      : Promise.resolve({})
+  ]);
+
+  const valueMap = new Map<string, string>();
+  for (const v of values.product_feature_values || []) {
+    valueMap.set(String(v.id), pickLanguageValue(v.value, languageId) || '');
+  }
+
+  const specs: ProductSpec[] = links
+    .map(l => ({
+      name: featureNames.get(parseInt(l.id, 10)) || '',
+      value: valueMap.get(String(l.id_feature_value)) || ''
+    }))
+    .filter(spec => spec.name && spec.value);
+
+  return {
+    name: extractProductName(product.name, languageId),
+    description: stripHtml(pickLanguageValue(product.description_short, languageId) || ''),
+    specs
+  };
+}
+
+// Tool: Get Product Details (answers spec questions from product features and short description)
+async function getProductDetails(
+  env: Env,
+  args: { product_id?: number; product_name?: string; question?: string; language?: string },
+  call: CallContext = {}
+) {
+  try {
+    const language = callerLanguage(args, call);
+    const languageId = await getLanguageId(env, language);
+    let productId = args.product_id;
+
+    if (args.product_name && !args.product_id) {
+      const safeName = sanitizeSearchQuery(correctSpeechQuery(args.product_name));
+      const indexed = safeName ? await findInCatalogIndex(env, safeName) : [];
+      const results = indexed.length > 0 ? indexed : safeName ? await executeSearch(env, safeName, languageId) : [];
+      if (results.length === 0) {
+        return { success: false, message: `No product found matching "${args.product_name}"` };
+      }
+      productId = Number(results[0]);
+    }
+
+    if (!productId || !Number.isInteger(productId) || productId <= 0) {
+      return { success: false, message: 'Please provide a valid product ID or name.' };
+    }
+
+    const details = await loadProductSpecs(env, productId, languageId);
+    if (!details) {
+      return { success: false, message: 'I couldn\'t find that product.' };
+    }
+
+    const { specs, description } = details;
+    const name = makeSpeechFriendly(details.name, language);
+
+    if (args.question?.trim()) {
+      const spec = answerSpecQuestion(specs, args.question);
+      if (spec) {
+        return {
+          success: true,
+          product_id: productId,
+          name,
+          answer: PRODUCT_DETAILS_TEXT[language].answer(spec.name, makeSpeechFriendly(spec.value, language))
+        };
+      }
+
+      // Fall back to the short description sentence mentioning the question's terms
+      const terms = normalizeSearchQuery(args.question).terms;
+      const sentence = description
+        .split(REGEX_SENTENCE_END)
+        .find(s => terms.some(t => s.toLowerCase().includes(t)));
+      return sentence
+        ? { success: true, product_id: productId, name, answer: makeSpeechFriendly(sentence, language) }
+        : {
+            success: false,
+            product_id: productId,
+            name,
+            message: PRODUCT_DETAILS_TEXT[language].unknown
+          };
+    }
+
+    // No question - give a short overview for the agent to pick from
+    return {
+      success: true,
+      product_id: productId,
+      name,
+      summary: description ? makeSpeechFriendly(description.split(REGEX_SENTENCE_END)[0], language) : undefined,
+      specs: specs.slice(0, VOICE_ITEM_LIMIT).map(spec => `${spec.name}: ${makeSpeechFriendly(spec.value, language)}`)
+    };
+  } catch (error) {
+    console.error('getProductDetails error:', error);
+    return { success: false, message: 'Unable to get the product details. Please try again.' };
+  }
+}
+
+// Spec difference between compared products ("RAM": ["16GB", "32GB"])
+export interface SpecDifference {
+  name: string;
+  values: string[];
+}
+
+// Helper: Find specs whose values differ between products (in the first product's spec order)
+// Specs missing from a product are skipped - "not listed" isn't a useful spoken difference
+export function diffSpecs(specLists: ProductSpec[][], max = COMPARE_FEATURE_MAX): SpecDifference[] {
+  if (specLists.length < 2) return [];
+
+  const lookups = specLists.map(specs => new Map(specs.map(spec => [spec.name.toLowerCase(), spec.value])));
+  const differences: SpecDifference[] = [];
+
+  for (const spec of specLists[0]) {
+    const key = spec.name.toLowerCase();
+    const values = lookups.map(lookup => lookup.get(key));
+    if (values.some(v => v === undefined)) continue;
+
+    const distinct = new Set(values.map(v => v!.trim().toLowerCase()));
+    if (distinct.size > 1) {
+      differences.push({ name: spec.name, values: values as string[] });
+      if (differences.length >= max) break;
+    }
+  }
+  return differences;
+}
+
+// Helper: Resolve a spoken product name or ID through the search pipeline (best ranked match wins)
+// Ranked like searchProducts, so "RTX 5070" doesn't resolve to the 5070 Ti that happens to come first
+async function resolveProductId(env: Env, nameOrId: string | number, languageId: number): Promise<number | null> {
+  const raw = correctSpeechQuery(String(nameOrId));
+  if (REGEX_NUMERIC.test(raw)) return parseInt(raw, 10);
+
+  const normalized = normalizeSearchQuery(raw);
+  if (normalized.variations.length === 0) return null;
+
+  // Local catalog index first, live search candidates on a miss
+  const index = await loadCatalogIndex(env);
+  const indexHits = index ? searchCatalogIndex(index, normalized.terms) : [];
+  const candidates = indexHits.length > 0
+    ? indexHits.map(catalogEntryToProduct)
+    : await searchLiveCandidates(env, normalized, languageId, normalized.terms.some(t => TECH_BRANDS.has(t)));
+
+  const best = rankSearchResults(candidates, normalized.terms, languageId)[0];
+  return best ? Number(best.id) : null;
+}
+
+// Tool: Compare Products (2-3 products: price, stock and the key differing specs)
+async function compareProducts(
+  env: Env,
+  args: { products: (string | number)[]; language?: string },
+  call: CallContext = {}
+) {
+  const language = callerLanguage(args, call);
+  const text = COMPARE_TEXT[language];
+  try {
+    const requested = (args.products || []).filter(p => String(p ?? '').trim());
+    if (requested.length < 2 || requested.length > COMPARE_PRODUCTS_MAX) {
+      return { success: false, message: text.needProducts };
+    }
+
+    const languageId = await getLanguageId(env, language);
+    const resolved = await Promise.all(requested.map(p => resolveProductId(env, p, languageId)));
+
+    const missing = requested.filter((_, i) => resolved[i] === null);
+    if (missing.length > 0) {
+      return { success: false, message: text.notFound(missing.map(String).join(text.or)) };
+    }
+
+    // Two names landing on one product means one of them was heard or matched wrong - don't compare it with itself
+    const productIds = resolved as number[];
+    const duplicate = productIds.findIndex((id, i) => productIds.indexOf(id) !== i);
+    if (duplicate >= 0) {
+      const first = requested[productIds.indexOf(productIds[duplicate])];
+      return { success: false, message: text.sameProduct(String(first), String(requested[duplicate])) };
+    }
+
+    // Specs, raw prices and stock for all products IN PARALLEL
+    const [details, priceData, stock] = await Promise.all([
+      Promise.all(productIds.map(id => loadProductSpecs(env, id, languageId))),
+      prestashopFetch(env, `/products?filter[id]=[${productIds.join('|')}]&display=${PRODUCT_DISPLAY_FIELDS}`),
+      prestashopFetch(env, `/stock_availables?filter[id_product]=[${productIds.join('|')}]&filter[id_product_attribute]=[0]&display=[id_product,quantity]`)
+    ]);
+
+    if (details.some(d => d === null)) {
+      return { success: false, message: text.loadFailed };
+    }
+
+    const prices = await getConsumerPrices(env, priceData.products || []);
+    const quantities = new Map<number, number>();
+    for (const row of stock.stock_availables || []) {
+      quantities.set(Number(row.id_product), parseInt(row.quantity, 10) || 0);
+    }
+
+    const products = productIds.map((id, i) => ({
+      id,
+      name: shortenForListing(details[i]!.name),
+      price: prices.get(id)?.price,
+      was_price: prices.get(id)?.was_price,
+      ...spokenPrices(prices.get(id), language),
+      in_stock: (quantities.get(id) || 0) > 0,
+      url: getProductUrl(env, id)
+    }));
+
+    const differences = diffSpecs(details.map(d => d!.specs)).map(diff =>
+      `${diff.name}: ${diff.values.map(v => makeSpeechFriendly(v, language)).join(text.versus)}`
+    );
+
+    return {
+      success: true,
+      products,
+      differences,
+      message: differences.length > 0 ? text.differences(differences.join('; ')) : text.noDifferences
+    };
+  } catch (error) {
+    console.error('compareProducts error:', error);
+    return { success: false, message: text.failed };
+  }
+}
+
+// Tool: Browse Category (subcategories with price ranges, or top products for a leaf category)
+async function browseCategory(env: Env, args: { category?: string; language?: string }, call: CallContext = {}) {
+  const language = callerLanguage(args, call);
+  const text = BROWSE_TEXT[language];
+  try {
+    const languageId = await getLanguageId(env, language);
+    const tree = await getCategories(env);
+    const nodes = [...tree.values()];
+    if (nodes.length === 0) {
+      return { success: false, message: text.unavailable };
+    }
+
+    // No category named: browse from the top of the shop
+    const spoken = args.category?.trim() || '';
+    let categoryId: number;
+    if (spoken) {
+      const matched = matchCategory(nodes, spoken);
+      if (matched.length === 0) {
+        const topLevel = nodes.filter(n => CATEGORY_ROOT_IDS.has(n.parentId) && !CATEGORY_ROOT_IDS.has(n.id));
+        return {
+          success: false,
+          message: text.notFound(spoken, topLevel.slice(0, BROWSE_SUBCATEGORY_MAX).map(n => categoryName(n, languageId)).join(', '))
+        };
+      }
+      categoryId = matched[0];
+    } else {
+      categoryId = CATEGORY_HOME_ID;
+    }
+
+    const cacheKey = `${language}:${languageId}:${categoryId}`;
+    const now = Date.now();
+    const cached = browseCache.get(cacheKey);
+    if (cached && (now - cached.time) < PRODUCT_CACHE_TTL) {
+      return cached.result;
+    }
+
+    const node = tree.get(categoryId);
+    const name = node ? categoryName(node, languageId) : text.shop;
+    const children = nodes.filter(n => n.parentId === categoryId);
+    const branch = categoryWithDescendants(nodes, [categoryId]);
+
+    // Every active product in the branch from the catalog index; live, one call per subcategory IN PARALLEL
+    // so a big subcategory can't crowd the others out of the fetch limit
+    const index = await loadCatalogIndex(env);
+    let products: any[];
+    let prices: Map<number, ConsumerPrice>;
+    if (index) {
+      const entries = index.products.filter(e => branch.has(e.category));
+      products = entries.map(catalogEntryToProduct);
+      prices = new Map(entries.map(e => [e.id, toConsumerPrice(e.price, e.was)]));
+    } else {
+      const groups = children.length > 0 ? children.map(c => categoryWithDescendants(nodes, [c.id])) : [branch];
+      const batches = await Promise.all(groups.map(group => prestashopFetch(
+        env,
+        `/products?filter[id_category_default]=[${[...group].join('|')}]&filter[active]=[1]&display=${PRODUCT_DISPLAY_FIELDS}&limit=${BROWSE_FETCH_MAX}`
+      )));
+      products = batches.flatMap(data => (data.products || []) as any[]);
+      prices = await getConsumerPrices(env, products);
+    }
+    const amountOf = (p: any) => prices.get(Number(p.id))?.amount ?? 0;
+
+    let result;
+    if (children.length > 0) {
+      const summary = summarizeCategoryPrices(
+        nodes,
+        children.map(c => c.id),
+        products.map(p => ({ categoryId: Number(p.id_category_default), amount: amountOf(p) }))
+      );
+      // Biggest subcategories first - that's what the caller most likely means
+      const subcategories = children
+        .filter(c => summary.has(c.id))
+        .sort((a, b) => summary.get(b.id)!.count - summary.get(a.id)!.count)
+        .slice(0, BROWSE_SUBCATEGORY_MAX)
+        .map(c => {
+          const s = summary.get(c.id)!;
+          return {
+            id: c.id,
+            name: categoryName(c, languageId),
+            products: s.count,
+            price_from: `€${Math.floor(s.min)}`,
+            price_to: `€${Math.ceil(s.max)}`
+          };
+        });
+
+      if (subcategories.length === 0) {
+        return { success: false, message: text.empty(name) };
+      }
+
+      result = {
+        success: true,
+        category: name,
+        subcategories,
+        // Price ranges as words, so they're read in the caller's language
+        message: text.subcategories(name, subcategories.map(sub => {
+          const s = summary.get(sub.id)!;
+          return text.range(sub.name, priceToWords(Math.floor(s.min), language), priceToWords(Math.ceil(s.max), language));
+        }).join('; ')),
+        note: PRICE_NOTE
+      };
+    } else {
+      const priced = products.filter(p => amountOf(p) > 0);
+      if (priced.length === 0) {
+        return { success: false, message: text.empty(name) };
+      }
+
+      // Best sellers first; relevance order from PrestaShop if sales can't be loaded
+      const sales = await getSalesCounts(env, priced.map(p => Number(p.id))).catch(error => {
+        console.warn('getSalesCounts failed, keeping catalog order', error);
+        return new Map<number, number>();
+      });
+      const top = [...priced]
+        .sort((a, b) => (sales.get(Number(b.id)) || 0) - (sales.get(Number(a.id)) || 0))
+        .slice(0, VOICE_SEARCH_DEFAULT);
+      const amounts = priced.map(amountOf);
+
+      result = {
+        success: true,
+        category: name,
+        count: priced.length,
+        price_from: `€${Math.floor(Math.min(...amounts))}`,
+        price_to: `€${Math.ceil(Math.max(...amounts))}`,
+        products: top.map(p => ({
+          id: p.id,
+          name: shortenForListing(extractProductName(p.name, languageId)),
+          price: prices.get(Number(p.id))?.price,
+          was_price: prices.get(Number(p.id))?.was_price,
+          ...spokenPrices(prices.get(Number(p.id)), language),
+          url: getProductUrl(env, p.id)
+        })),
+        note: PRICE_NOTE
+      };
+    }
+
+    // Cache result with FIFO eviction
+    if (browseCache.size >= BROWSE_CACHE_MAX) {
+      const oldestKey = browseCache.keys().next().value;
+      if (oldestKey !== undefined) browseCache.delete(oldestKey);
+    }
+    browseCache.set(cacheKey, { result, time: now });
+
+    return result;
+  } catch (error) {
+    console.error('browseCategory error:', error);
+    return { success: false, message: text.failed };
+  }
+}
+
+// Tool: Check Product Stock (optimized - parallel calls, caching, variant aware)
+async function checkProductStock(
+  env: Env,
+  args: { product_id?: number; product_name?: string; variant?: string; language?: string; suggest_alternatives?: boolean },
+  call: CallContext = {}
+) {
+  const language = callerLanguage(args, call);
+  const text = STOCK_TEXT[language];
+  try {
+    let productId = args.product_id;
+    const languageId = await getLanguageId(env, language);
+
+    if (args.product_name && !args.product_id) {
+      // Fix speech transcription, then sanitize product name to prevent filter injection
+      const safeName = sanitizeSearchQuery(correctSpeechQuery(args.product_name));
+      if (!safeName) {
+        return { success: false, message: text.needName };
+      }
+
+      // Local catalog index first, then PrestaShop's /search endpoint in the caller's language (English fallback)
+      const indexed = await findInCatalogIndex(env, safeName);
+      const searchResults = indexed.length > 0 ? indexed : await executeSearch(env, safeName, languageId);
+      if (searchResults.length === 0) {
+        return { success: false, message: text.notFound(safeName) };
+      }
+
+      // Use first matching product (stock is checked below)
+      productId = Number(searchResults[0]);
+    }
+
+    // Validate product_id before API calls
+    if (!productId || !Number.isInteger(productId) || productId <= 0) {
+      return { success: false, message: text.invalidId };
+    }
+
+    // Have product ID - fetch product info and stock IN PARALLEL (use main shop for stock)
+    const [productInfo, stock] = await Promise.all([
+      getProductInfo(env, productId, languageId, language),
+      loadProductStock(env, productId, languageId)
+    ]);
+
+    if (!stock) {
+      return { success: false, message: text.unavailable };
+    }
+
+    const productName = productInfo?.name || 'Unknown product';
+    if (stock.variants.length === 0) {
+      const result = formatStockResult(productId, productName, stock.quantity, productInfo?.pricing, language);
+      return args.suggest_alternatives ? withAlternatives(env, result, productId, languageId, language) : result;
+    }
+
+    // Variants are spoken, so make their labels TTS-friendly ("1 terabytes Black")
+    const variantList = stock.variants.map(v => ({
+      name: makeSpeechFriendly(v.label, language),
+      quantity: v.quantity,
+      in_stock: v.quantity > 0
+    }));
+
+    if (args.variant?.trim()) {
+      const matches = matchVariants(stock.variants.map(v => v.label), args.variant);
+
+      if (matches.length === 1) {
+        const variant = stock.variants[matches[0]];
+        const result = {
+          ...formatStockResult(productId, productName, variant.quantity, productInfo?.pricing, language),
+          variant: makeSpeechFriendly(variant.label, language)
+        };
+        return args.suggest_alternatives ? withAlternatives(env, result, productId, languageId, language) : result;
+      }
+
+      // Ambiguous or unknown variant - offer the closest options (in-stock first)
+      const candidates = (matches.length > 1 ? matches.map(i => variantList[i]) : variantList)
+        .sort((a, b) => Number(b.in_stock) - Number(a.in_stock))
+        .slice(0, VOICE_ITEM_LIMIT);
+      return {
+        success: true,
+        product_id: productId,
+        name: productName,
+        needs_variant: true,
+        variants: candidates,
+        message: matches.length > 1
+          ? text.ambiguousVariant
+          : text.unknownVariant(candidates.map(v => v.name).join(', '))
+      };
+    }
+
+    // No variant specified - report overall stock and list what's available
+    const available = variantList.filter(v => v.in_stock);
+    const result = {
+      ...formatStockResult(productId, productName, stock.quantity, productInfo?.pricing, language),
+      variants: variantList.slice(0, VOICE_ITEM_LIMIT),
+      variant_count: variantList.length,
+      message: available.length > 0
+        ? text.variantsInStock(variantList.length, available.slice(0, VOICE_ITEM_LIMIT).map(v => v.name).join(', '))
+        : text.allVariantsOut
+    };
+    return args.suggest_alternatives ? withAlternatives(env, result, productId, languageId, language) : result;
+  } catch (error) {
+    console.error('checkProductStock error:', error);
+    return { success: false, message: text.failed };
+  }
+}
+
+// Helper: Get carrier name with caching
+async function getCarrierName(env: Env, carrierId: number): Promise<string> {
+  const now = Date.now();
+
+  // Check if cache is still valid
+  if (now - carrierCacheTime < CARRIER_CACHE_TTL && carrierCache.has(carrierId)) {
+    return carrierCache.get(carrierId)!;
+  }
+
+  // Fetch all carriers and cache them (single call, reused across requests)
+  try {
+    const carriers = await prestashopFetch(env, `/carriers?display=[id,name]`);
+    carrierCache = new Map();
+    carrierCacheTime = now;
+
+    if (carriers.carriers) {
+      for (const c of carriers.carriers) {
+        carrierCache.set(parseInt(c.id, 10), c.name || 'Standard shipping');
+      }
+    }
+
+    return carrierCache.get(carrierId) || 'Standard shipping';
+  } catch (error) {
+    console.warn('getCarrierName failed for carrier', carrierId, error);
+    return 'Standard shipping';
+  }
+}
+
+// Tool: Get Tracking Info (optimized - parallel carrier cache refresh + order lookup)
+async function getTrackingInfo(
+  env: Env,
+  args: { reference?: string; order_id?: number; language?: string } & IdentityAnswers,
+  call: CallContext = {}
+) {
+  try {
+    // Order ID goes into the webservice URL - only a positive integer gets there
+    if (args.order_id != null && !(Number.isInteger(Number(args.order_id)) && Number(args.order_id) > 0)) {
+      return { success: false, message: 'Please provide a valid order ID or reference number.' };
+    }
+    let orderId = args.order_id != null ? Number(args.order_id) : undefined;
+    let order: Pick<PrestaShopOrder, 'id' | 'id_customer' | 'total_paid'> | null = null;
+
+    // If we need to look up by reference, do that first
+    if (args.reference && !orderId) {
+      const found = await findOrderByReference<PrestaShopOrder>(env, args.reference, '[id,id_customer,reference,total_paid]');
+      if (!found.success) return found;
+      order = found.order;
+      orderId = found.order.id;
+    }
+
+    if (!orderId) {
+      return { success: false, message: 'Please provide an order reference number.' };
+    }
+
+    // Pre-warm carrier cache in parallel with order_carriers fetch if cache is stale
+    const now = Date.now();
+    const needsCacheRefresh = (now - carrierCacheTime) >= CARRIER_CACHE_TTL;
+
+    const [carriersResult, orderData] = await Promise.all([
+      prestashopFetch(env, `/order_carriers?filter[id_order]=${orderId}&display=[id_carrier,tracking_number]`),
+      // Order owner is needed for verification (already fetched on the reference path)
+      order ? Promise.resolve(null) : prestashopFetch(env, `/orders/${orderId}?display=[id,id_customer,total_paid]`),
+      // Refresh carrier cache in background if stale (don't await result)
+      needsCacheRefresh ? prestashopFetch(env, `/carriers?display=[id,name]`).then(data => {
+        carrierCache = new Map();
+        carrierCacheTime = Date.now();
+        if (data.carriers) {
+          for (const c of data.carriers) {
+            carrierCache.set(parseInt(c.id, 10), c.name || 'Standard shipping');
+          }
+        }
+      }).catch(() => {}) : Promise.resolve()
+    ]);
+
+    order = order || orderData?.orders?.[0] || orderData?.order || null;
+    if (!order) {
+      return { success: false, message: 'No order found with that ID' };
+    }
+
+    if (!carriersResult.order_carriers?.length) {
+      return { success: false, message: 'No shipping information available yet for this order' };
+    }
+
+    const orderCarrier = carriersResult.order_carriers[0];
+    const trackingNumber = orderCarrier.tracking_number;
+
+    // Unverified callers only hear whether tracking exists, not the carrier or number
+    const customerId = parseInt(String(order.id_customer), 10);
+    const verified = await verifyCaller(env, call, customerId, args, [order.total_paid]);
+    if (!verified) {
+      return {
+        success: true,
+        verified: false,
+        has_tracking: !!trackingNumber,
+        message: verificationMessage(args, call, customerId)
+      };
+    }
+
+    // Use cached carrier name lookup (cache was refreshed in parallel if needed)
+    const carrierName = orderCarrier.id_carrier
+      ? await getCarrierName(env, parseInt(orderCarrier.id_carrier, 10))
+      : 'Standard shipping';
+
+    return {
+      success: true,
+      verified: true,
+      carrier: carrierName,
+      tracking_number: trackingNumber || 'Not yet assigned',
+      has_tracking: !!trackingNumber,
+      message: trackingNumber
+        ? TRACKING_TEXT[callerLanguage(args, call)].shipped(carrierName, trackingNumber)
+        : TRACKING_TEXT[callerLanguage(args, call)].preparing(carrierName)
+    };
+  } catch (error) {
+    console.error('getTrackingInfo error:', error);
+    return { success: false, message: 'Unable to retrieve tracking information. Please try again.' };
+  }
+}
+
+// Helper: Today's date in Cyprus as YYYY-MM-DD (Workers run in UTC)
+function todayInCyprus(): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: STORE_TIMEZONE }).format(new Date());
+}
+
+// Helper: Parse a YYYY-MM-DD date as UTC midnight (date-only arithmetic, no timezone drift)
+function parseDay(day: string): Date {
+  const [y, m, d] = day.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+// Helper: Add working days (Mon-Fri) to a YYYY-MM-DD date
+export function addBusinessDays(day: string, days: number): string {
+  const date = parseDay(day);
+  let remaining = days;
+  while (remaining > 0) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    const weekday = date.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) remaining--;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// Helper: Describe a date relative to today for voice in the caller's language
+// ("yesterday", "on Monday", "on 3 March" / "χθες", "τη Δευτέρα", "στις 3 Μαρτίου" / "вчера", "в понедельник", "3 марта")
+export function describeDay(day: string, today: string, language: CallerLanguage = 'en'): string {
+  const diffDays = Math.round((parseDay(today).getTime() - parseDay(day).getTime()) / 86400000);
+  if (Math.abs(diffDays) <= 1) return SPOKEN_RELATIVE_DAYS[language][1 - diffDays];
+
+  const date = parseDay(day);
+  if (language !== 'en') {
+    if (Math.abs(diffDays) < 7) return SPOKEN_WEEKDAYS[language][date.getUTCDay()];
+    const spoken = date.toLocaleDateString(language === 'el' ? 'el-GR' : 'ru-RU', { day: 'numeric', month: 'long', timeZone: 'UTC' });
+    return language === 'el' ? `στις ${spoken}` : spoken;
+  }
+  if (Math.abs(diffDays) < 7) {
+    return `on ${date.toLocaleDateString('en-GB', { weekday: 'long', timeZone: 'UTC' })}`;
+  }
+  return `on ${date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', timeZone: 'UTC' })}`;
+}
+
+// Helper: Parse CARRIER_TRANSIT_DAYS config (carrier ID or name → [min, max] working days)
+export function parseTransitDays(raw?: string): Record<string, [number, number]> {
+  const config: Record<string, [number, number]> = { default: DEFAULT_TRANSIT_DAYS };
+  if (!raw) return config;
+
+  try {
+    const parsed = JSON.parse(raw);
+    for (const [key, value] of Object.entries(parsed)) {
+      if (Array.isArray(value) && value.length === 2 && value.every(v => Number.isInteger(v) && v >= 0)) {
+        const [min, max] = value as number[];
+        config[key.toLowerCase()] = [Math.min(min, max), Math.max(min, max)];
+      }
+    }
+  } catch (error) {
+    console.warn('Invalid CARRIER_TRANSIT_DAYS config, using defaults:', error);
+  }
+  return config;
+}
+
+// Helper: Orthodox Easter Sunday as YYYY-MM-DD (Meeus Julian algorithm, valid 1900-2099)
+export function orthodoxEaster(year: number): string {
+  const d = (19 * (year % 19) + 15) % 30;
+  const e = (2 * (year % 4) + 4 * (year % 7) - d + 34) % 7;
+  const month = Math.floor((d + e + 114) / 31);
+  const day = ((d + e + 114) % 31) + 1;
+  // Julian → Gregorian calendar (13 days this century)
+  return new Date(Date.UTC(year, month - 1, day + 13)).toISOString().slice(0, 10);
+}
+
+// Helper: Cyprus public holidays for a year (fixed dates plus the Easter-based ones)
+export function cyprusHolidays(year: number): Set<string> {
+  const holidays = new Set(CYPRUS_FIXED_HOLIDAYS.map(md => `${year}-${md}`));
+  const easter = parseDay(orthodoxEaster(year));
+  for (const offset of CYPRUS_EASTER_HOLIDAYS) {
+    holidays.add(new Date(easter.getTime() + offset * 86400000).toISOString().slice(0, 10));
+  }
+  return holidays;
+}
+
+// Helper: Parse STORE_HOURS config ({"mon": "09:00-19:00", "sun": null}), defaults for weekdays not given
+export function parseStoreHours(raw?: string): StoreHours {
+  const hours: StoreHours = { ...DEFAULT_STORE_HOURS };
+  if (!raw) return hours;
+
+  try {
+    const parsed = JSON.parse(raw);
+    for (const [key, value] of Object.entries(parsed)) {
+      const weekday = WEEKDAY_KEYS.indexOf(key.slice(0, 3).toLowerCase());
+      if (weekday === -1) continue;
+      if (value === null) {
+        hours[weekday] = null;
+        continue;
+      }
+      const match = typeof value === 'string' ? REGEX_HOURS_RANGE.exec(value.trim()) : null;
+      if (!match) continue;
+      const open = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+      const close = parseInt(match[3], 10) * 60 + parseInt(match[4], 10);
+      if (open < close && close <= 1440) hours[weekday] = [open, close];
+    }
+  } catch (error) {
+    console.warn('Invalid STORE_HOURS config, using defaults:', error);
+  }
+  return hours;
+}
+
+// Helper: Parse a PrestaShop store's hours field ('[["09:00AM - 07:00PM"], ...]', Monday first) - null when unusable
+export function parseStoreHoursField(raw: string | undefined): StoreHours | null {
+  if (!raw?.trim()) return null;
+
+  try {
+    const days = JSON.parse(raw);
+    if (!Array.isArray(days) || days.length !== 7) return null;
+
+    const hours: StoreHours = {};
+    for (let i = 0; i < 7; i++) {
+      const value = String((Array.isArray(days[i]) ? days[i][0] : days[i]) ?? '').trim();
+      const weekday = (i + 1) % 7;
+      if (!value) {
+        hours[weekday] = null;
+        continue;
+      }
+      const match = REGEX_STORE_HOURS_RANGE.exec(value);
+      if (!match) return null; // Split shifts or free text - the configured hours are safer
+      const clock = (h: string, m: string, period?: string) =>
+        ((parseInt(h, 10) % (period ? 12 : 24)) + (period?.toLowerCase() === 'pm' ? 12 : 0)) * 60 + parseInt(m, 10);
+      const open = clock(match[1], match[2], match[3]);
+      const close = clock(match[4], match[5], match[6]);
+      if (open >= close || close > 1440) return null;
+      hours[weekday] = [open, close];
+    }
+    return hours;
+  } catch {
+    return null;
+  }
+}
+
+// Helper: Days the store is closed besides its weekly hours - public holidays (this and next year) and STORE_HOLIDAYS
+export function parseStoreHolidays(raw: string | undefined, today: string): Set<string> {
+  const year = parseInt(today.slice(0, 4), 10);
+  const closed = new Set([...cyprusHolidays(year), ...cyprusHolidays(year + 1)]);
+  if (!raw) return closed;
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed)) {
+      for (const day of parsed) {
+        if (typeof day === 'string' && REGEX_ISO_DAY.test(day)) closed.add(day);
+      }
+    }
+  } catch (error) {
+    console.warn('Invalid STORE_HOLIDAYS config, using public holidays only:', error);
+  }
+  return closed;
+}
+
+// Helper: Minutes after midnight as "09:30"
+function formatClock(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// Helper: Opening hours of a day, or null when the store is closed (weekly closing day or holiday)
+function storeHoursOn(day: string, hours: StoreHours, closedDays: Set<string>): [number, number] | null {
+  return closedDays.has(day) ? null : hours[parseDay(day).getUTCDay()] ?? null;
+}
+
+// Helper: Next free callback slots ("2024-03-15T10:30"), skipping closed days and full slots
+// Slots start at opening time every 30 minutes; the last one starts half an hour before closing
+export function nextCallbackSlots(
+  now: { day: string; minutes: number },
+  hours: StoreHours,
+  closedDays: Set<string>,
+  booked: Map<string, number>,
+  capacity: number,
+  max = CALLBACK_OFFER_MAX
+): string[] {
+  const slots: string[] = [];
+  const date = parseDay(now.day);
+
+  for (let i = 0; i < CALLBACK_SEARCH_DAYS && slots.length < max; i++) {
+    const day = date.toISOString().slice(0, 10);
+    const open = storeHoursOn(day, hours, closedDays);
+    date.setUTCDate(date.getUTCDate() + 1);
+    if (!open) continue;
+
+    const earliest = i === 0 ? now.minutes + CALLBACK_LEAD_MINUTES : 0;
+    for (let start = open[0]; start + CALLBACK_SLOT_MINUTES <= open[1] && slots.length < max; start += CALLBACK_SLOT_MINUTES) {
+      const slot = `${day}T${formatClock(start)}`;
+      if (start >= earliest && (booked.get(slot) || 0) < capacity) slots.push(slot);
+    }
+  }
+  return slots;
+}
+
+// Helper: Whether a requested slot is a real, bookable callback time (capacity is checked separately)
+export function isCallbackSlot(slot: string, now: { day: string; minutes: number }, hours: StoreHours, closedDays: Set<string>): boolean {
+  const match = REGEX_CALLBACK_SLOT.exec(slot);
+  if (!match) return false;
+  const day = match[1];
+  const start = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+
+  const open = storeHoursOn(day, hours, closedDays);
+  if (!open || start < open[0] || start + CALLBACK_SLOT_MINUTES > open[1]) return false;
+  if ((start - open[0]) % CALLBACK_SLOT_MINUTES !== 0) return false;
+
+  const daysAhead = Math.round((parseDay(day).getTime() - parseDay(now.day).getTime()) / 86400000);
+  if (daysAhead < 0 || daysAhead >= CALLBACK_SEARCH_DAYS) return false;
+  return daysAhead > 0 || start >= now.minutes + CALLBACK_LEAD_MINUTES;
+}
+
+// Helper: Spoken slot time ("tomorrow at 10:30", "αύριο στις δέκα και μισή το πρωί", "завтра в десять тридцать утра")
+export function describeSlot(slot: string, today: string, language: CallerLanguage = 'en'): string {
+  const day = describeDay(slot.slice(0, 10), today, language);
+  const minutes = parseInt(slot.slice(11, 13), 10) * 60 + parseInt(slot.slice(14, 16), 10);
+  switch (language) {
+    case 'el':
+    case 'ru': return `${day} ${spokenAtTime(minutes, language)}`;
+    default: return `${day} at ${slot.slice(11, 16)}`;
+  }
+}
+
+// Helper: Current day and minutes after midnight in Cyprus
+function clockInCyprus(): { day: string; minutes: number } {
+  const now = nowInCyprus();
+  return { day: now.slice(0, 10), minutes: parseInt(now.slice(11, 13), 10) * 60 + parseInt(now.slice(14, 16), 10) };
+}
+
+// Helper: Greek clock time and the article it takes ("τις εννέα και μισή το πρωί", but "τη μία")
+function greekClock(minutes: number): { article: 'τη' | 'τις'; time: string } {
+  const hour = Math.floor(minutes / 60) % 24;
+  const minute = minutes % 60;
+  const hour12 = hour % 12 || 12;
+  const nextHour12 = (hour + 1) % 12 || 12;
+
+  const period = hour < 12 ? 'το πρωί' : hour < 15 ? 'το μεσημέρι' : hour < 20 ? 'το απόγευμα' : 'το βράδυ';
+  const word = greekNumber(hour12, true);
+  const time = minute === 0 ? word
+    : minute === 30 ? `${word} και μισή`
+    : minute === 15 ? `${word} και τέταρτο`
+    : minute === 45 ? `${greekNumber(nextHour12, true)} παρά τέταρτο`
+    : `${word} και ${greekNumber(minute)}`;
+  return { article: (minute === 45 ? nextHour12 : hour12) === 1 ? 'τη' : 'τις', time: `${time} ${period}` };
+}
+
+// Helper: Clock time spoken naturally ("half past nine in the morning", "τις εννέα και μισή το πρωί", "девять тридцать утра")
+// Russian can be put in the genitive for "с ... до ..." ranges
+export function spokenTime(minutes: number, language: CallerLanguage = 'en', genitive = false): string {
+  const hour = Math.floor(minutes / 60) % 24;
+  const minute = minutes % 60;
+  const hour12 = hour % 12 || 12;
+  const nextHour12 = (hour + 1) % 12 || 12;
+
+  switch (language) {
+    case 'el': {
+      const { article, time } = greekClock(minutes);
+      return `${article} ${time}`;
+    }
+    case 'ru': {
+      const period = hour < 5 ? 'ночи' : hour < 12 ? 'утра' : hour < 17 ? 'дня' : 'вечера';
+      if (hour === 12 && minute === 0) return genitive ? 'полудня' : 'полдень';
+      const word = genitive ? RU_HOURS_GENITIVE[hour12] : hour12 === 1 ? 'час' : russianNumber(hour12);
+      const minuteWord = genitive ? RU_MINUTES_GENITIVE[minute] ?? russianNumber(minute) : russianNumber(minute);
+      return minute === 0 ? `${word} ${period}` : `${word} ${minuteWord} ${period}`;
+    }
+    default: {
+      if (hour === 12 && minute === 0) return 'noon';
+      const period = hour < 12 ? 'in the morning' : hour < 18 ? 'in the afternoon' : 'in the evening';
+      const word = englishNumber(hour12);
+      const time = minute === 0 ? word
+        : minute === 30 ? `half past ${word}`
+        : minute === 15 ? `quarter past ${word}`
+        : minute === 45 ? `quarter to ${englishNumber(nextHour12)}`
+        : `${word} ${minute < 10 ? `oh ${englishNumber(minute)}` : englishNumber(minute)}`;
+      return `${time} ${period}`;
+    }
+  }
+}
+
+// Helper: Clock time with its "at" ("at nine in the morning", "στις εννέα το πρωί", "στη μία", "в девять утра")
+export function spokenAtTime(minutes: number, language: CallerLanguage = 'en'): string {
+  switch (language) {
+    case 'el': {
+      const { article, time } = greekClock(minutes);
+      return `${article === 'τη' ? 'στη' : 'στις'} ${time}`;
+    }
+    case 'ru': return `в ${spokenTime(minutes, 'ru')}`;
+    default: return `at ${spokenTime(minutes)}`;
+  }
 }
 
-// Helper: Format stock result for voice output (DRY helper)
-function formatStockResult(productId: number, productName: string, quantity: number) {
-  return {
-    success: true,
-    product_id: productId,
-    name: productName,
-    quantity,
-    in_stock: quantity > 0,
-    message: quantity > 0
-      ? `We have ${quantity} units in stock. Please check the product page for delivery times.`
-      : 'Sorry, this product is currently out of stock',
-    note: 'Stock availability does not guarantee instant delivery. Check product page for delivery times.'
-  };
+// Helper: Opening hours spoken as a range ("from nine in the morning to seven in the evening")
+export function spokenHours([open, close]: [number, number], language: CallerLanguage = 'en'): string {
+  switch (language) {
+    case 'el': return `από ${spokenTime(open, 'el')} έως ${spokenTime(close, 'el')}`;
+    case 'ru': return `с ${spokenTime(open, 'ru', true)} до ${spokenTime(close, 'ru', true)}`;
+    default: return `from ${spokenTime(open)} to ${spokenTime(close)}`;
+  }
 }
 
-// Tool: Get Order Status (optimized - includes order items for "what did I order?" questions)
-async function getOrderStatus(env: Env, args: { reference?: string; email?: string; phone?: string }) {
-  try {
-    let order: PrestaShopOrder;
+// Helper: The day a caller asks about - YYYY-MM-DD, "today", "tomorrow" or a weekday name (next one) - null if unclear
+export function resolveStoreDate(input: string | undefined, today: string): string | null {
+  const text = foldWord(input?.trim() || '').replace(REGEX_DAY_LEAD, '');
+  if (!text || text === 'today' || text === 'σημερα' || text === 'сегодня') return today;
+  if (REGEX_ISO_DAY.test(text)) {
+    // "2026-02-30" parses as 2 March - only real calendar days pass
+    return parseDay(text).toISOString().slice(0, 10) === text ? text : null;
+  }
 
-    if (args.reference) {
-      // Validate order reference format (9 alphanumeric characters)
-      if (!isValidOrderReference(args.reference)) {
-        return { success: false, message: 'Order reference should be 9 characters like ABCDEFGHI. Please check and try again.' };
-      }
+  const date = parseDay(today);
+  if (text === 'tomorrow' || text === 'αυριο' || text === 'завтра') {
+    date.setUTCDate(date.getUTCDate() + 1);
+    return date.toISOString().slice(0, 10);
+  }
 
-      // Fetch order with minimal fields for performance
-      const data = await prestashopFetch(env, `/orders?filter[reference]=${args.reference}&display=[id,reference,current_state,total_paid,date_add,payment,associations]`);
-      if (!data.orders?.length) {
-        return { success: false, message: `No order found with reference ${args.reference}` };
-      }
-      order = data.orders[0];
-    } else if (args.email) {
-      // Validate email format
-      if (!isValidEmail(args.email)) {
-        return { success: false, message: 'That doesn\'t look like a valid email address. Please try again.' };
-      }
+  const weekday = WEEKDAY_NAMES[text];
+  if (weekday === undefined) return null;
+  date.setUTCDate(date.getUTCDate() + ((weekday - date.getUTCDay() + 7) % 7));
+  return date.toISOString().slice(0, 10);
+}
 
-      // Step 1: Get customer ID
-      const customers = await prestashopFetch(env, `/customers?filter[email]=${encodeURIComponent(args.email)}&display=[id]`);
-      if (!customers.customers?.length) {
-        return { success: false, message: `No customer found with email ${args.email}` };
-      }
+// Helper: Capitalize the first letter of a sentence
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
 
-      // Step 2: Get latest order with minimal fields for performance
-      const orders = await prestashopFetch(env, `/orders?filter[id_customer]=${customers.customers[0].id}&display=[id,reference,current_state,total_paid,date_add,payment,associations]&sort=[id_DESC]&limit=1`);
-      if (!orders.orders?.length) {
-        return { success: false, message: 'No orders found for this customer' };
-      }
-      order = orders.orders[0];
-    } else if (args.phone) {
-      // Clean phone number (remove spaces, dashes, parentheses)
-      const cleanPhone = args.phone.replace(REGEX_PHONE_CLEAN, '');
-
-      // Search in addresses table - check both phone and phone_mobile IN PARALLEL
-      // This saves ~100-150ms compared to sequential lookups
-      const [phoneAddresses, mobileAddresses] = await Promise.all([
-        prestashopFetch(env, `/addresses?filter[phone]=%25${encodeURIComponent(cleanPhone)}%25&display=[id_customer]`),
-        prestashopFetch(env, `/addresses?filter[phone_mobile]=%25${encodeURIComponent(cleanPhone)}%25&display=[id_customer]`)
-      ]);
+// Order history event (state change with the day it happened)
+export interface OrderHistoryEvent {
+  stateId: number;
+  date: string; // YYYY-MM-DD
+}
 
-      // Use first match found (phone field takes priority)
-      const customerId = phoneAddresses.addresses?.[0]?.id_customer ||
-                         mobileAddresses.addresses?.[0]?.id_customer ||
-                         null;
+// Helper: Load an order's state changes, oldest first
+async function loadOrderHistory(env: Env, orderId: number): Promise<OrderHistoryEvent[]> {
+  const history = await prestashopFetch(env, `/order_histories?filter[id_order]=${orderId}&display=[id_order_state,date_add]&sort=[id_ASC]`);
 
-      if (!customerId) {
-        return { success: false, message: `No customer found with phone number ${args.phone}. Try your email or order reference instead.` };
-      }
+  // Collapse repeated states (PrestaShop can log the same state twice)
+  const events: OrderHistoryEvent[] = [];
+  for (const h of history.order_histories || []) {
+    const stateId = parseInt(h.id_order_state, 10);
+    if (events[events.length - 1]?.stateId !== stateId) {
+      events.push({ stateId, date: String(h.date_add).slice(0, 10) });
+    }
+  }
+  return events;
+}
 
-      // Get latest order for this customer
-      const orders = await prestashopFetch(env, `/orders?filter[id_customer]=${customerId}&display=[id,reference,current_state,total_paid,date_add,payment,associations]&sort=[id_DESC]&limit=1`);
-      if (!orders.orders?.length) {
-        return { success: false, message: 'No orders found for this phone number' };
-      }
-      order = orders.orders[0];
-    } else {
-      return { success: false, message: 'Please provide an order reference number, email, or phone number' };
+// Helper: Estimate delivery from order history and carrier transit days
+export function estimateDelivery(
+  events: OrderHistoryEvent[],
+  transitDays: [number, number],
+  today: string
+): { delivered_on?: string; earliest?: string; latest?: string } | null {
+  const delivered = events.find(e => DELIVERED_STATES.has(e.stateId));
+  if (delivered) return { delivered_on: delivered.date };
+
+  const last = events[events.length - 1];
+  if (last && ORDER_CLOSED_STATES.has(last.stateId)) return null;
+
+  // Count transit from the ship date, or from today plus processing time if not shipped yet
+  const shipped = [...events].reverse().find(e => SHIPPED_STATES.has(e.stateId));
+  const [min, max] = transitDays;
+  const start = shipped ? shipped.date : addBusinessDays(today, ORDER_PROCESSING_DAYS);
+
+  let earliest = addBusinessDays(start, min);
+  const latest = addBusinessDays(start, max);
+  // Overdue parcels: don't promise a date in the past
+  if (earliest < today) earliest = today;
+  return { earliest, latest: latest < earliest ? earliest : latest };
+}
+
+// Tool: Get Order Timeline (status history + delivery estimate for "when did it ship?" questions)
+async function getOrderTimeline(
+  env: Env,
+  args: { reference?: string; email?: string; phone?: string; language?: string } & IdentityAnswers,
+  call: CallContext = {}
+) {
+  try {
+    const lookup = await lookupOrder(env, args);
+    if (!lookup.success) return lookup;
+    const order = lookup.order;
+
+    // Verify caller and load state labels IN PARALLEL
+    const language = callerLanguage(args, call);
+    const customerId = parseInt(String(order.id_customer), 10);
+    const [verified, stateLabel] = await Promise.all([
+      verifyCaller(env, call, customerId, args, [order.total_paid]),
+      getOrderStateLabels(env, language)
+    ]);
+
+    // Unverified callers only get the coarse status
+    if (!verified) {
+      return {
+        success: true,
+        verified: false,
+        reference: order.reference,
+        status: stateLabel(order.current_state),
+        message: verificationMessage(args, call, customerId)
+      };
     }
 
-    // Extract order items for "what did I order?" questions
-    const items: string[] = [];
-    if (order.associations?.order_rows) {
-      const rows = Array.isArray(order.associations.order_rows)
-        ? order.associations.order_rows
-        : [order.associations.order_rows];
-      for (const row of rows.slice(0, VOICE_ITEM_LIMIT)) {
-        if (row.product_name) {
-          const qty = parseInt(row.product_quantity, 10) || 1;
-          items.push(qty > 1 ? `${qty}x ${shortenForListing(row.product_name)}` : shortenForListing(row.product_name));
-        }
-      }
+    // Only verified callers get the history, so load it and the carrier afterwards (IN PARALLEL)
+    const [events, carriers] = await Promise.all([
+      loadOrderHistory(env, order.id),
+      prestashopFetch(env, `/order_carriers?filter[id_order]=${order.id}&display=[id_carrier]`)
+    ]);
+
+    const today = todayInCyprus();
+    const timeline = events
+      .slice(-VOICE_ITEM_LIMIT)
+      .map(e => `${stateLabel(e.stateId)} ${describeDay(e.date, today, language)}`);
+
+    // Transit days by carrier ID first, then carrier name, then default
+    const carrierId = carriers.order_carriers?.[0]?.id_carrier
+      ? parseInt(carriers.order_carriers[0].id_carrier, 10)
+      : null;
+    const carrierName = carrierId ? await getCarrierName(env, carrierId) : 'Standard shipping';
+    const transitConfig = parseTransitDays(env.CARRIER_TRANSIT_DAYS);
+    const transitDays = (carrierId && transitConfig[String(carrierId)]) ||
+                        transitConfig[carrierName.toLowerCase()] ||
+                        transitConfig.default;
+
+    const estimate = estimateDelivery(events, transitDays, today);
+    const text = DELIVERY_TEXT[language];
+    let deliveryMessage: string | undefined;
+    if (estimate?.delivered_on) {
+      deliveryMessage = text.delivered(describeDay(estimate.delivered_on, today, language));
+    } else if (estimate?.earliest && estimate.latest) {
+      deliveryMessage = estimate.earliest === estimate.latest
+        ? text.expected(describeDay(estimate.earliest, today, language), carrierName)
+        : text.expectedRange(describeDay(estimate.earliest, today, language), describeDay(estimate.latest, today, language), carrierName);
     }
 
     return {
       success: true,
+      verified: true,
       reference: order.reference,
-      status: ORDER_STATES[order.current_state] || 'unknown',
-      total: `€${parseFloat(order.total_paid).toFixed(2)}`,
-      date: new Date(order.date_add).toLocaleDateString('en-GB'),
-      payment: order.payment,
-      items: items.length > 0 ? items : undefined,
-      item_count: items.length > 0 ? items.length : undefined
+      status: stateLabel(order.current_state),
+      timeline: timeline.length > 0 ? timeline : undefined,
+      carrier: carrierName,
+      estimated_delivery: estimate && !estimate.delivered_on ? estimate : undefined,
+      message: [timeline.join(', '), deliveryMessage].filter(Boolean).join('. ') || undefined
     };
   } catch (error) {
-    console.error('getOrderStatus error:', error);
-    return { success: false, message: 'Unable to retrieve order information. Please try again.' };
+    console.error('getOrderTimeline error:', error);
+    return { success: false, message: 'Unable to retrieve the order history. Please try again.' };
   }
 }
 
-// Helper: Get cached product info or fetch
-async function getProductInfo(env: Env, productId: number): Promise<{ name: string; price: string } | null> {
-  const now = Date.now();
-  const cached = productCache.get(productId);
+// Helper: Format a PrestaShop return ID as the RMA number shown to customers ("RE000123")
+export function formatReturnNumber(returnId: number | string): string {
+  return `RE${String(returnId).padStart(6, '0')}`;
+}
 
-  if (cached && (now - cached.time) < PRODUCT_CACHE_TTL) {
-    return { name: cached.name, price: cached.price };
-  }
+// Helper: Parse a spoken RMA number ("RE000123", "R E 123", "123") back to the return ID
+export function parseReturnNumber(rma: string): number | null {
+  const digits = rma.replace(REGEX_NON_DIGIT, '');
+  const id = parseInt(digits, 10);
+  return digits && id > 0 ? id : null;
+}
 
-  try {
-    const product = await prestashopFetch(env, `/products/${productId}?display=[id,name,price]`);
-    const productInfo = product.products?.[0] || product.product;
-    if (!productInfo) return null;
+// Helper: Check an order can still be returned (delivered, not closed, within the return window)
+export function checkReturnEligibility(
+  events: OrderHistoryEvent[],
+  today: string,
+  windowDays: number,
+  language: CallerLanguage = 'en'
+): { eligible: boolean; message?: string; deadline?: string } {
+  const text = RETURN_TEXT[language];
+  const last = events[events.length - 1];
+  if (last && ORDER_CLOSED_STATES.has(last.stateId)) {
+    return { eligible: false, message: text.cancelled };
+  }
 
-    const name = makeSpeechFriendly(extractProductName(productInfo.name));
-    const price = `€${parseFloat(productInfo.price || 0).toFixed(2)}`;
+  const delivered = events.find(e => DELIVERED_STATES.has(e.stateId));
+  if (!delivered) {
+    return { eligible: false, message: text.notDelivered };
+  }
 
-    // Cache with FIFO eviction (oldest entry removed when full)
-    if (productCache.size >= PRODUCT_CACHE_MAX) {
-      const oldestKey = productCache.keys().next().value;
-      if (oldestKey !== undefined) productCache.delete(oldestKey);
-    }
-    productCache.set(productId, { name, price, time: now });
+  const deadlineDate = parseDay(delivered.date);
+  deadlineDate.setUTCDate(deadlineDate.getUTCDate() + windowDays);
+  const deadline = deadlineDate.toISOString().slice(0, 10);
 
-    return { name, price };
-  } catch (error) {
-    console.warn('getProductInfo failed for product', productId, error);
-    return null;
+  if (today > deadline) {
+    return { eligible: false, deadline, message: text.windowEnded(windowDays) };
   }
+  return { eligible: true, deadline };
 }
 
-// Tool: Check Product Stock (optimized - parallel calls, caching)
-async function checkProductStock(env: Env, args: { product_id?: number; product_name?: string }) {
-  try {
-    let productId = args.product_id;
-    let productName: string;
-
-    if (args.product_name && !args.product_id) {
-      // Sanitize product name to prevent filter injection
-      const safeName = sanitizeSearchQuery(args.product_name);
-      if (!safeName) {
-        return { success: false, message: 'Please provide a product name to check.' };
-      }
+// Helper: Pick the order rows the caller wants to return (by spoken product names)
+// Returns null when the caller needs to choose (several rows and nothing specified)
+export function selectReturnRows(rows: OrderRow[], items?: string[]): OrderRow[] | null {
+  const wanted = (items || []).filter(item => item?.trim());
+  if (wanted.length === 0) {
+    return rows.length === 1 ? rows : null;
+  }
 
-      // Use PrestaShop's /search endpoint (language=1 for English)
-      const searchResults = await prestashopFetch(env, `/search?language=1&query=${encodeURIComponent(safeName)}`);
-      if (!searchResults.products?.length) {
-        return { success: false, message: `No product found matching "${safeName}"` };
-      }
+  return rows.filter(row => wanted.some(item => {
+    const terms = normalizeSearchQuery(item).terms;
+    return terms.length > 0 && rowMatchesTerms(row, terms);
+  }));
+}
 
-      // Get first matching product's details
-      productId = searchResults.products[0].id;
-      const productData = await prestashopFetch(env, `/products/${productId}?display=[id,name]`);
-      const productInfo = productData.products?.[0] || productData.product;
-      productName = productInfo ? makeSpeechFriendly(extractProductName(productInfo.name)) : 'Unknown product';
-
-      // Fetch stock after we have the ID (use main shop, not B2B)
-      // Use display=[quantity] instead of display=full for performance
-      const stock = await prestashopFetch(env, `/stock_availables?filter[id_product]=[${productId}]&filter[id_product_attribute]=[0]&display=[quantity]`);
-      if (!stock.stock_availables?.length) {
-        return { success: false, message: 'Unable to check stock for this product' };
-      }
-      const quantity = parseInt(stock.stock_availables[0].quantity, 10);
+// Helper: Return (RMA) state label in the caller's language
+function returnStateLabel(state: string | number, language: CallerLanguage): string {
+  return RETURN_STATES[language][parseInt(String(state), 10)] || RETURN_STATE_UNKNOWN[language];
+}
 
-      return formatStockResult(productId!, productName, quantity);
+// Tool: Request Return (checks eligibility and opens a PrestaShop order return)
+async function requestReturn(
+  env: Env,
+  args: { reference?: string; email?: string; phone?: string; items?: string[]; reason: string; language?: string } & IdentityAnswers,
+  call: CallContext = {}
+) {
+  const language = callerLanguage(args, call);
+  const text = RETURN_TEXT[language];
+  try {
+    if (!args.reason?.trim()) {
+      return { success: false, message: text.needReason };
     }
 
-    // Validate product_id before API calls
-    if (!productId || !Number.isInteger(productId) || productId <= 0) {
-      return { success: false, message: 'Please provide a valid product ID or name to check stock.' };
-    }
+    const lookup = await lookupOrder(env, args);
+    if (!lookup.success) return lookup;
+    const order = lookup.order;
 
-    // Have product ID - fetch product info and stock IN PARALLEL (use main shop for stock)
-    // Use display=[quantity] instead of display=full for performance
-    const [productInfo, stock] = await Promise.all([
-      getProductInfo(env, productId),
-      prestashopFetch(env, `/stock_availables?filter[id_product]=[${productId}]&filter[id_product_attribute]=[0]&display=[quantity]`)
+    // Verify caller, load history and existing returns IN PARALLEL
+    const customerId = parseInt(String(order.id_customer), 10);
+    const [verified, events, existing] = await Promise.all([
+      verifyCaller(env, call, customerId, args, [order.total_paid]),
+      loadOrderHistory(env, order.id),
+      prestashopFetch(env, `/order_returns?filter[id_order]=${order.id}&display=[id,state]`)
     ]);
 
-    if (!stock.stock_availables?.length) {
-      return { success: false, message: 'Unable to check stock for this product' };
+    if (!verified) {
+      return { success: false, verified: false, message: verificationMessage(args, call, customerId) };
     }
 
-    const quantity = parseInt(stock.stock_availables[0].quantity, 10);
-    productName = productInfo?.name || 'Unknown product';
+    // One open return per order - read back the existing RMA instead of opening another
+    const openReturn = ((existing.order_returns || []) as PrestaShopOrderReturn[])
+      .find(r => !RETURN_CLOSED_STATES.has(parseInt(r.state, 10)));
+    if (openReturn) {
+      const rma = formatReturnNumber(openReturn.id);
+      return {
+        success: true,
+        rma_number: rma,
+        status: returnStateLabel(openReturn.state, language),
+        message: text.alreadyOpen(rma)
+      };
+    }
 
-    return formatStockResult(productId, productName, quantity);
-  } catch (error) {
-    console.error('checkProductStock error:', error);
-    return { success: false, message: 'Unable to check product availability. Please try again.' };
-  }
-}
+    const windowDays = parseInt(env.RETURN_WINDOW_DAYS || '', 10) || DEFAULT_RETURN_WINDOW_DAYS;
+    const eligibility = checkReturnEligibility(events, todayInCyprus(), windowDays, language);
+    if (!eligibility.eligible) {
+      return { success: false, eligible: false, message: eligibility.message };
+    }
 
-// Helper: Get carrier name with caching
-async function getCarrierName(env: Env, carrierId: number): Promise<string> {
-  const now = Date.now();
+    const rows = getOrderRows(order);
+    const selected = selectReturnRows(rows, args.items);
+    if (selected === null) {
+      return {
+        success: false,
+        needs_selection: true,
+        items: summarizeOrderItems(order),
+        message: text.whichItems
+      };
+    }
+    if (selected.length === 0) {
+      return {
+        success: false,
+        needs_selection: true,
+        items: summarizeOrderItems(order),
+        message: text.itemNotFound
+      };
+    }
 
-  // Check if cache is still valid
-  if (now - carrierCacheTime < CARRIER_CACHE_TTL && carrierCache.has(carrierId)) {
-    return carrierCache.get(carrierId)!;
-  }
+    // Selected rows and reason go in the return question for the returns team
+    const itemLines = selected
+      .map(row => `- ${parseInt(row.product_quantity, 10) || 1}x ${row.product_name}${row.id ? ` (order row ${row.id})` : ''}`)
+      .join('\n');
+    const question = escapeCdata(`Reason: ${args.reason.trim()}\nItems:\n${itemLines}\n\n[Created via Alexis Voice Agent]`);
 
-  // Fetch all carriers and cache them (single call, reused across requests)
-  try {
-    const carriers = await prestashopFetch(env, `/carriers?display=[id,name]`);
-    carrierCache = new Map();
-    carrierCacheTime = now;
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<prestashop>
+  <order_return>
+    <id_customer>${customerId}</id_customer>
+    <id_order>${order.id}</id_order>
+    <state>1</state>
+    <question><![CDATA[${question}]]></question>
+  </order_return>
+</prestashop>`;
 
-    if (carriers.carriers) {
-      for (const c of carriers.carriers) {
-        carrierCache.set(parseInt(c.id, 10), c.name || 'Standard shipping');
+    const created = await prestashopPost(env, '/order_returns', xml);
+    const returnId = created.order_return?.id;
+    if (!returnId) {
+      throw new Error('Order return created without an ID');
+    }
+
+    // One detail row per returned order row, so staff see exactly what's coming back
+    const detailResults = await Promise.allSettled(selected.filter(row => row.id).map(row => prestashopPost(env, '/order_return_details', `<?xml version="1.0" encoding="UTF-8"?>
+<prestashop>
+  <order_return_detail>
+    <id_order_return>${returnId}</id_order_return>
+    <id_order_detail>${row.id}</id_order_detail>
+    <product_quantity>${parseInt(row.product_quantity, 10) || 1}</product_quantity>
+  </order_return_detail>
+</prestashop>`)));
+    for (const result of detailResults) {
+      if (result.status === 'rejected') {
+        console.warn('Order return detail failed for return', returnId, result.reason);
       }
     }
 
-    return carrierCache.get(carrierId) || 'Standard shipping';
+    const rma = formatReturnNumber(returnId);
+    return {
+      success: true,
+      rma_number: rma,
+      items: selected.map(row => shortenForListing(row.product_name)),
+      message: text.opened(rma)
+    };
   } catch (error) {
-    console.warn('getCarrierName failed for carrier', carrierId, error);
-    return 'Standard shipping';
+    console.error('requestReturn error:', error);
+    return { success: false, message: text.failed };
   }
 }
 
-// Tool: Get Tracking Info (optimized - parallel carrier cache refresh + order lookup)
-async function getTrackingInfo(env: Env, args: { reference?: string; order_id?: number }) {
+// Tool: Get Return Status (by RMA number, order reference, email or phone - details need a verified caller)
+async function getReturnStatus(
+  env: Env,
+  args: { rma_number?: string; reference?: string; email?: string; phone?: string; language?: string } & IdentityAnswers,
+  call: CallContext = {}
+) {
+  const language = callerLanguage(args, call);
+  const text = RETURN_TEXT[language];
   try {
-    let orderId = args.order_id;
-
-    // If we need to look up by reference, do that first
-    if (args.reference && !args.order_id) {
-      // Validate order reference format
-      if (!isValidOrderReference(args.reference)) {
-        return { success: false, message: 'Order reference should be 9 characters like ABCDEFGHI. Please check and try again.' };
-      }
+    let returns: PrestaShopOrderReturn[];
+    let orderTotal: string | undefined;
 
-      const orders = await prestashopFetch(env, `/orders?filter[reference]=${args.reference}&display=[id]`);
-      if (!orders.orders?.length) {
-        return { success: false, message: `No order found with reference ${args.reference}` };
+    if (args.rma_number) {
+      const returnId = parseReturnNumber(args.rma_number);
+      if (!returnId) {
+        return { success: false, message: text.badNumber };
       }
-      orderId = orders.orders[0].id;
+      const data = await prestashopFetch(env, `/order_returns?filter[id]=${returnId}&display=[id,id_order,id_customer,state,date_add,date_upd]`);
+      returns = data.order_returns || [];
+    } else if (args.reference) {
+      const lookup = await lookupOrder(env, { reference: args.reference });
+      if (!lookup.success) return lookup;
+      orderTotal = lookup.order.total_paid;
+      const data = await prestashopFetch(env, `/order_returns?filter[id_order]=${lookup.order.id}&display=[id,id_order,id_customer,state,date_add,date_upd]&sort=[id_DESC]`);
+      returns = data.order_returns || [];
+    } else if (args.email || args.phone) {
+      const customer = await resolveCustomerId(env, args);
+      if (!customer.success) return customer;
+      const data = await prestashopFetch(env, `/order_returns?filter[id_customer]=${customer.customerId}&display=[id,id_order,id_customer,state,date_add,date_upd]&sort=[id_DESC]&limit=${VOICE_ITEM_LIMIT}`);
+      returns = data.order_returns || [];
+    } else {
+      return { success: false, message: text.needLookup };
     }
 
-    // Pre-warm carrier cache in parallel with order_carriers fetch if cache is stale
-    const now = Date.now();
-    const needsCacheRefresh = (now - carrierCacheTime) >= CARRIER_CACHE_TTL;
-
-    const [carriersResult] = await Promise.all([
-      prestashopFetch(env, `/order_carriers?filter[id_order]=${orderId}&display=[id_carrier,tracking_number]`),
-      // Refresh carrier cache in background if stale (don't await result)
-      needsCacheRefresh ? prestashopFetch(env, `/carriers?display=[id,name]`).then(data => {
-        carrierCache = new Map();
-        carrierCacheTime = Date.now();
-        if (data.carriers) {
-          for (const c of data.carriers) {
-            carrierCache.set(parseInt(c.id, 10), c.name || 'Standard shipping');
-          }
-        }
-      }).catch(() => {}) : Promise.resolve()
-    ]);
-
-    if (!carriersResult.order_carriers?.length) {
-      return { success: false, message: 'No shipping information available yet for this order' };
+    if (returns.length === 0) {
+      return { success: false, message: text.notFound };
     }
 
-    const orderCarrier = carriersResult.order_carriers[0];
-    const trackingNumber = orderCarrier.tracking_number;
+    // Same verification as the order tools; a spoken total is checked against the latest return's order
+    const customerId = parseInt(String(returns[0].id_customer), 10);
+    if (!orderTotal && (args.total_digits !== undefined && args.total_digits !== '')) {
+      const data = await prestashopFetch(env, `/orders?filter[id]=${returns[0].id_order}&display=[id,total_paid]`);
+      orderTotal = data.orders?.[0]?.total_paid;
+    }
+    const verified = await verifyCaller(env, call, customerId, args, orderTotal ? [orderTotal] : []);
+    if (!verified) {
+      return {
+        success: true,
+        verified: false,
+        status: returnStateLabel(returns[0].state, language),
+        message: verificationMessage(args, call, customerId)
+      };
+    }
 
-    // Use cached carrier name lookup (cache was refreshed in parallel if needed)
-    const carrierName = orderCarrier.id_carrier
-      ? await getCarrierName(env, parseInt(orderCarrier.id_carrier, 10))
-      : 'Standard shipping';
+    const today = todayInCyprus();
+    const results = returns.slice(0, VOICE_ITEM_LIMIT).map(r => ({
+      rma_number: formatReturnNumber(r.id),
+      status: returnStateLabel(r.state, language),
+      opened: describeDay(String(r.date_add).slice(0, 10), today, language),
+      last_update: r.date_upd ? describeDay(String(r.date_upd).slice(0, 10), today, language) : undefined
+    }));
 
     return {
       success: true,
-      carrier: carrierName,
-      tracking_number: trackingNumber || 'Not yet assigned',
-      has_tracking: !!trackingNumber,
-      message: trackingNumber
-        ? `Your order is being shipped via ${carrierName}. Tracking number: ${trackingNumber}`
-        : `Your order is being prepared for shipping via ${carrierName}. Tracking will be available soon.`
+      verified: true,
+      count: results.length,
+      returns: results
     };
   } catch (error) {
-    console.error('getTrackingInfo error:', error);
-    return { success: false, message: 'Unable to retrieve tracking information. Please try again.' };
+    console.error('getReturnStatus error:', error);
+    return { success: false, message: text.statusFailed };
   }
 }
 
@@ -745,66 +4798,306 @@ function getProductUrl(env: Env, productId: number): string {
   return `${baseUrl}/index.php?id_product=${productId}&controller=product`;
 }
 
-// Helper: Execute a single PrestaShop search query (with caching)
-async function executeSearch(env: Env, query: string): Promise<number[]> {
+// Helper: Execute a single PrestaShop search query (with caching, English fallback for other languages)
+async function executeSearch(env: Env, query: string, languageId: number = DEFAULT_LANGUAGE_ID): Promise<number[]> {
   const sanitized = sanitizeSearchQuery(query);
   if (!sanitized) return [];
 
-  const cacheKey = sanitized.toLowerCase();
-  const now = Date.now();
+  const cacheKey = `${languageId}:${sanitized.toLowerCase()}`;
+  const now = Date.now();
+
+  // Check cache first (each language caches only its own results; the English fallback has its own key)
+  const cached = searchCache.get(cacheKey);
+  if (cached && (now - cached.time) < SEARCH_CACHE_TTL) {
+    return cached.ids.length === 0 && languageId !== DEFAULT_LANGUAGE_ID
+      ? executeSearch(env, sanitized, DEFAULT_LANGUAGE_ID)
+      : cached.ids;
+  }
+
+  try {
+    const encoded = encodeURIComponent(sanitized);
+    const results = await prestashopFetch(env, `/search?language=${languageId}&query=${encoded}`);
+    const ids = results.products?.map((p: any) => p.id) || [];
+
+    // Cache result with FIFO eviction
+    if (searchCache.size >= SEARCH_CACHE_MAX) {
+      const oldestKey = searchCache.keys().next().value;
+      if (oldestKey !== undefined) searchCache.delete(oldestKey);
+    }
+    searchCache.set(cacheKey, { ids, time: now });
+
+    // Catalog names are often only in English - retry there before giving up
+    if (ids.length === 0 && languageId !== DEFAULT_LANGUAGE_ID) {
+      return executeSearch(env, sanitized, DEFAULT_LANGUAGE_ID);
+    }
+    return ids;
+  } catch (error) {
+    console.warn(`Search failed for "${query}":`, error);
+    return [];
+  }
+}
+
+// Compact catalog entry in the local search index (built by the scheduled sync)
+export interface CatalogIndexEntry {
+  id: number;
+  names: Record<number, string>; // By PrestaShop language ID (default language always present)
+  price: number;                 // Consumer price (VAT + promotions) at sync time
+  was?: number;                  // Regular price when on sale
+  brand: string | null;
+  category: number;              // Default category ID
+  quantity: number;              // Stock at sync time (ranking only - stock answers are always live)
+}
+
+export interface CatalogIndex {
+  builtAt: number;
+  products: CatalogIndexEntry[];
+}
+
+// Name tokens per indexed product (computed once per loaded index)
+const catalogIndexTokens = new WeakMap<CatalogIndex, string[][]>();
+
+// Helper: Search the local catalog index - every term must match a word in one of the product's names
+// Exact word matches rank above prefix matches, then shorter names (closer to the query) first
+export function searchCatalogIndex(index: CatalogIndex, terms: string[]): CatalogIndexEntry[] {
+  if (terms.length === 0) return [];
+
+  let tokens = catalogIndexTokens.get(index);
+  if (!tokens) {
+    tokens = index.products.map(p => [...new Set(
+      Object.values(p.names).flatMap(name => name.toLowerCase().split(REGEX_NAME_WORDS).filter(Boolean))
+    )]);
+    catalogIndexTokens.set(index, tokens);
+  }
+
+  const hits: { entry: CatalogIndexEntry; exact: number; length: number }[] = [];
+  index.products.forEach((entry, i) => {
+    const words = tokens![i];
+    let exact = 0;
+    for (const term of terms) {
+      if (words.includes(term)) {
+        exact++;
+      } else if (term.length < 3 || !words.some(w => w.startsWith(term))) {
+        return;
+      }
+    }
+    hits.push({ entry, exact, length: words.length });
+  });
+
+  return hits
+    .sort((a, b) => b.exact - a.exact || a.length - b.length)
+    .map(h => h.entry);
+}
+
+// Helper: Turn an index entry into the product shape the live search returns
+function catalogEntryToProduct(entry: CatalogIndexEntry) {
+  return {
+    id: entry.id,
+    name: Object.entries(entry.names).map(([id, value]) => ({ id, value })),
+    id_category_default: String(entry.category),
+    quantity: entry.quantity
+  };
+}
+
+// Helper: Load the catalog index from KV (isolate copy for 5 min; ignored when the sync has stalled)
+async function loadCatalogIndex(env: Env): Promise<CatalogIndex | null> {
+  if (!env.CATALOG_INDEX) return null;
+  const now = Date.now();
+
+  if (!catalogIndexCache || now - catalogIndexCache.time >= CATALOG_INDEX_CACHE_TTL) {
+    try {
+      const index = await env.CATALOG_INDEX.get<CatalogIndex>(CATALOG_INDEX_KEY, 'json');
+      catalogIndexCache = index ? { index, time: now } : null;
+    } catch (error) {
+      console.warn('loadCatalogIndex failed, using live search', error);
+    }
+  }
+
+  const index = catalogIndexCache?.index;
+  return index && now - index.builtAt < CATALOG_INDEX_MAX_AGE ? index : null;
+}
+
+// Helper: Product IDs for a spoken name from the catalog index (empty on a miss or without an index)
+async function findInCatalogIndex(env: Env, query: string): Promise<number[]> {
+  const index = await loadCatalogIndex(env);
+  if (!index) return [];
+  return searchCatalogIndex(index, normalizeSearchQuery(query).terms).map(e => e.id);
+}
+
+// Helper: Rebuild the catalog index from PrestaShop (cron trigger) - returns the number of products indexed
+async function syncCatalogIndex(env: Env): Promise<number> {
+  if (!env.CATALOG_INDEX) {
+    console.warn('CATALOG_INDEX is not bound, skipping catalog sync');
+    return 0;
+  }
+
+  // Active products page by page (bounded so a misbehaving API can't loop forever)
+  const products: any[] = [];
+  for (let page = 0; page < CATALOG_SYNC_MAX_PAGES; page++) {
+    const data = await prestashopFetch(
+      env,
+      `/products?filter[active]=[1]&display=${PRODUCT_DISPLAY_FIELDS}&sort=[id_ASC]&limit=${page * CATALOG_SYNC_PAGE},${CATALOG_SYNC_PAGE}`,
+      CATALOG_SYNC_TIMEOUT
+    );
+    const batch = data.products || [];
+    products.push(...batch);
+    if (batch.length < CATALOG_SYNC_PAGE) break;
+  }
+
+  // Tax rates, every public promotion and default-combination stock once, instead of per product batch
+  const [taxRates, specificPrices, scope, stock] = await Promise.all([
+    getTaxRates(env),
+    getPublicSpecificPrices(env),
+    getPriceScope(env),
+    prestashopFetch(env, `/stock_availables?filter[id_product_attribute]=[0]&display=[id_product,quantity]`, CATALOG_SYNC_TIMEOUT)
+  ]);
+  const prices = priceProducts(products, taxRates, specificPrices, nowInCyprus(), scope);
+  const quantities = new Map<number, number>();
+  for (const row of stock.stock_availables || []) {
+    quantities.set(Number(row.id_product), parseInt(row.quantity, 10) || 0);
+  }
+
+  const index: CatalogIndex = {
+    builtAt: Date.now(),
+    products: products.map(p => {
+      const defaultName = extractProductName(p.name);
+      const names: Record<number, string> = { [DEFAULT_LANGUAGE_ID]: defaultName };
+      if (Array.isArray(p.name)) {
+        for (const n of p.name) {
+          // Only keep translations that differ (most names are English in every language)
+          if (n.value && n.value !== defaultName) names[Number(n.id)] = n.value;
+        }
+      }
+      const pricing = prices.get(Number(p.id))!;
+      return {
+        id: Number(p.id),
+        names,
+        price: pricing.amount,
+        ...(pricing.was_amount !== undefined ? { was: pricing.was_amount } : {}),
+        brand: detectBrand(defaultName),
+        category: parseInt(p.id_category_default, 10) || 0,
+        quantity: quantities.get(Number(p.id)) || 0
+      };
+    })
+  };
+
+  await env.CATALOG_INDEX.put(CATALOG_INDEX_KEY, JSON.stringify(index));
+  catalogIndexCache = { index, time: Date.now() };
+  return index.products.length;
+}
+
+// Helper: Live PrestaShop search - candidates from the query variations in the caller's language
+// Used when the local catalog index is missing or has no match; ranking is left to scoreSearchResult
+async function searchLiveCandidates(
+  env: Env,
+  normalized: NormalizedQuery,
+  languageId: number,
+  hasBrandTerms: boolean
+): Promise<any[]> {
+  // Multi-strategy search with early termination
+  // Try first variation alone - if it returns enough results, skip parallel searches
+  // Candidates keep discovery order (most specific variation first)
+  const candidateIds = new Set<number>(await executeSearch(env, normalized.variations[0], languageId));
+
+  // Only do parallel searches if first variation didn't return enough results
+  // This saves 2 API calls in the common case
+  const needMoreResults = candidateIds.size < (hasBrandTerms ? 10 : 5);
+
+  if (needMoreResults && normalized.variations.length > 1) {
+    const additionalVariations = normalized.variations.slice(1, 4);
+    const additionalResults = await Promise.all(
+      additionalVariations.map(v => executeSearch(env, v, languageId))
+    );
 
-  // Check cache first
-  const cached = searchCache.get(cacheKey);
-  if (cached && (now - cached.time) < SEARCH_CACHE_TTL) {
-    return cached.ids;
+    for (const ids of additionalResults) {
+      for (const id of ids) candidateIds.add(id);
+    }
   }
 
-  try {
-    const encoded = encodeURIComponent(sanitized);
-    const results = await prestashopFetch(env, `/search?language=1&query=${encoded}`);
-    const ids = results.products?.map((p: any) => p.id) || [];
+  // Fallback only if still no results
+  if (candidateIds.size === 0 && normalized.variations.length > 4) {
+    const fallbackVariations = normalized.variations.slice(4, 7);
+    const fallbackResults = await Promise.all(
+      fallbackVariations.map(v => executeSearch(env, v, languageId))
+    );
 
-    // Cache result with FIFO eviction
-    if (searchCache.size >= SEARCH_CACHE_MAX) {
-      const oldestKey = searchCache.keys().next().value;
-      if (oldestKey !== undefined) searchCache.delete(oldestKey);
+    for (const ids of fallbackResults) {
+      for (const id of ids) candidateIds.add(id);
     }
-    searchCache.set(cacheKey, { ids, time: now });
-
-    return ids;
-  } catch (error) {
-    console.warn(`Search failed for "${query}":`, error);
-    return [];
   }
+
+  if (candidateIds.size === 0) return [];
+
+  // Fetch product details and stock (a ranking signal) for the candidate pool IN PARALLEL
+  const pool = [...candidateIds].slice(0, SEARCH_RANK_POOL);
+  const [search, quantities] = await Promise.all([
+    prestashopFetch(env, `/products?filter[id]=[${pool.join('|')}]&display=${PRODUCT_DISPLAY_FIELDS}`),
+    getStockQuantities(env, pool).catch(error => {
+      console.warn('searchLiveCandidates: stock unavailable for ranking', error);
+      return new Map<number, number>();
+    })
+  ]);
+
+  if (!search.products?.length) return [];
+
+  // Maintain discovery ordering (PrestaShop may return in different order)
+  const productMap = new Map(search.products.map((p: any) => [Number(p.id), p]));
+  return pool
+    .filter(id => productMap.has(id))
+    .map(id => ({ ...(productMap.get(id) as any), quantity: quantities.get(id) }));
+}
+
+// Helper: Rank candidates by relevance (best name among the caller's language and the default)
+// Candidates scoring zero or less are dropped; ties keep their incoming order
+function rankSearchResults(products: any[], terms: string[], languageId: number): any[] {
+  return products
+    .map(p => ({
+      product: p,
+      score: Math.max(
+        scoreSearchResult(extractProductName(p.name, languageId), terms, p.quantity),
+        scoreSearchResult(extractProductName(p.name), terms, p.quantity)
+      )
+    }))
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(r => r.product);
 }
 
 // Tool: Search Products (multi-strategy search with fallbacks)
 // Handles: exact matches, partial matches, series patterns, tech specs
-async function searchProducts(env: Env, args: { query: string; limit?: number }) {
+async function searchProducts(
+  env: Env,
+  args: { query: string; limit?: number; language?: string } & SearchFilters,
+  call: CallContext = {}
+) {
   try {
+    const language = callerLanguage(args, call);
+    const languageId = await getLanguageId(env, language);
     const limit = Math.min(args.limit || VOICE_SEARCH_DEFAULT, VOICE_SEARCH_MAX);
-    const rawQuery = args.query?.trim() || '';
+    const rawQuery = correctSpeechQuery(args.query || '');
 
-    if (!rawQuery) {
+    if (!rawQuery && !args.category?.trim()) {
       return { success: false, message: 'Please tell me what product you\'re looking for.' };
     }
 
     // Fast path: If query looks like a product ID/SKU (numeric), fetch directly
     if (REGEX_NUMERIC.test(rawQuery)) {
       try {
-        const product = await prestashopFetch(env, `/products/${rawQuery}?display=[id,name,price]`);
+        const product = await prestashopFetch(env, `/products/${rawQuery}?display=${PRODUCT_DISPLAY_FIELDS}`);
         const p = product.products?.[0] || product.product;
         if (p) {
+          const pricing = (await getConsumerPrices(env, [p])).get(Number(p.id));
           return {
             success: true,
             count: 1,
             products: [{
               id: p.id,
-              name: makeSpeechFriendly(extractProductName(p.name)),
-              price: `€${parseFloat(p.price).toFixed(2)}`,
+              name: makeSpeechFriendly(extractProductName(p.name, languageId), language),
+              price: pricing?.price,
+              was_price: pricing?.was_price,
+              ...spokenPrices(pricing, language),
               url: getProductUrl(env, p.id)
             }],
-            note: 'Prices shown exclude VAT. Check product page for delivery times.'
+            note: PRICE_NOTE
           };
         }
       } catch (error) {
@@ -812,8 +5105,34 @@ async function searchProducts(env: Env, args: { query: string; limit?: number })
       }
     }
 
+    // Structured filters: explicit arguments win over phrases parsed from the query
+    const parsed = parseSearchFilters(rawQuery);
+    const filters: SearchFilters = {
+      min_price: args.min_price ?? parsed.filters.min_price,
+      max_price: args.max_price ?? parsed.filters.max_price,
+      category: args.category?.trim() || undefined,
+      sort: args.sort ?? parsed.filters.sort,
+      in_stock_only: args.in_stock_only ?? parsed.filters.in_stock_only
+    };
+    const hasFilters = filters.min_price !== undefined || filters.max_price !== undefined ||
+      !!filters.category || !!filters.in_stock_only || (!!filters.sort && filters.sort !== 'relevance');
+
+    // Category: restrict to the matching subtree, or fall back to using it as a keyword
+    let categoryIds: Set<number> | null = null;
+    let keywords = parsed.query;
+    if (filters.category) {
+      const nodes = [...(await getCategories(env)).values()];
+      const matched = matchCategory(nodes, filters.category);
+      if (matched.length > 0) {
+        categoryIds = categoryWithDescendants(nodes, matched);
+      } else {
+        keywords = `${keywords} ${filters.category}`.trim();
+      }
+    }
+    if (!keywords) keywords = filters.category || '';
+
     // Normalize query and generate search variations
-    const normalized = normalizeSearchQuery(rawQuery);
+    const normalized = normalizeSearchQuery(keywords);
 
     if (normalized.variations.length === 0) {
       return { success: false, message: 'Please provide a product name to search for.' };
@@ -823,47 +5142,20 @@ async function searchProducts(env: Env, args: { query: string; limit?: number })
     const brandTerms = normalized.terms.filter(t => TECH_BRANDS.has(t));
     const hasBrandTerms = brandTerms.length > 0;
 
-    // Multi-strategy search with early termination
-    // Try first variation alone - if it returns enough results, skip parallel searches
-    const productScores = new Map<number, number>();
-    const firstResult = await executeSearch(env, normalized.variations[0]);
-
-    for (const id of firstResult) {
-      productScores.set(id, 1);
-    }
-
-    // Only do parallel searches if first variation didn't return enough results
-    // This saves 2 API calls in the common case
-    const needMoreResults = productScores.size < (hasBrandTerms ? 10 : 5);
-
-    if (needMoreResults && normalized.variations.length > 1) {
-      const additionalVariations = normalized.variations.slice(1, 4);
-      const additionalResults = await Promise.all(
-        additionalVariations.map(v => executeSearch(env, v))
-      );
-
-      for (const ids of additionalResults) {
-        for (const id of ids) {
-          productScores.set(id, (productScores.get(id) || 0) + 1);
-        }
-      }
-    }
-
-    // Fallback only if still no results
-    if (productScores.size === 0 && normalized.variations.length > 4) {
-      const fallbackVariations = normalized.variations.slice(4, 7);
-      const fallbackResults = await Promise.all(
-        fallbackVariations.map(v => executeSearch(env, v))
-      );
+    // Local catalog index first (rebuilt by the cron sync) - live PrestaShop search only on a miss
+    const index = await loadCatalogIndex(env);
+    const indexHits = index ? searchCatalogIndex(index, normalized.terms) : [];
+    let knownPrices: Map<number, ConsumerPrice> | undefined;
+    let candidates: any[];
 
-      for (const ids of fallbackResults) {
-        for (const id of ids) {
-          productScores.set(id, (productScores.get(id) || 0) + 1);
-        }
-      }
+    if (indexHits.length > 0) {
+      candidates = indexHits.map(catalogEntryToProduct);
+      knownPrices = new Map(indexHits.map(e => [e.id, toConsumerPrice(e.price, e.was)]));
+    } else {
+      candidates = await searchLiveCandidates(env, normalized, languageId, hasBrandTerms);
     }
 
-    if (productScores.size === 0) {
+    if (candidates.length === 0) {
       // Provide helpful message with what we searched for
       const searchedTerms = normalized.terms.slice(0, 3).join(', ');
       return {
@@ -872,65 +5164,50 @@ async function searchProducts(env: Env, args: { query: string; limit?: number })
       };
     }
 
-    // Sort by score (descending) and take top results
-    // Fetch more candidates if we'll be filtering by brand (to ensure enough results after filtering)
-    const fetchLimit = hasBrandTerms ? Math.max(limit * 3, 15) : limit;
-
-    const sortedIds = [...productScores.entries()]
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, fetchLimit)
-      .map(([id]) => id);
-
-    // Fetch product details for matched IDs
-    const search = await prestashopFetch(
-      env,
-      `/products?filter[id]=[${sortedIds.join('|')}]&display=[id,name,price]`
-    );
-
-    if (!search.products?.length) {
-      return { success: false, message: `No products found matching "${rawQuery}"` };
-    }
-
-    // Maintain score-based ordering (PrestaShop may return in different order)
-    const productMap = new Map(search.products.map((p: any) => [p.id, p]));
-    let orderedProducts = sortedIds
-      .map(id => productMap.get(id))
-      .filter(Boolean);
-
-    // Post-filter: If user specified a brand, filter to only products where brand is primary
-    // This fixes PrestaShop's OR-based search returning unrelated products
-    // (e.g., "asus laptop" returning cables that are "compatible with Asus")
-    if (hasBrandTerms) {
-      const filteredProducts = orderedProducts.filter((p: any) => {
-        const productName = extractProductName(p.name).toLowerCase();
-        // Brand must appear in the first 50 characters (primary position)
-        // This filters out accessories "for Brand" or "compatible with Brand"
-        const primaryPart = productName.slice(0, 50);
-        return brandTerms.some(brand => primaryPart.includes(brand));
-      });
+    // If no candidate carries the requested brand, tell the user clearly instead of offering other brands
+    const carriesBrand = (p: any) => {
+      const words = extractProductName(p.name, languageId).toLowerCase().split(REGEX_NAME_WORDS);
+      return brandTerms.some(brand => words.includes(brand));
+    };
+    if (hasBrandTerms && !candidates.some(carriesBrand)) {
+      const brandList = brandTerms.join(', ').toUpperCase();
+      return {
+        success: false,
+        message: `No ${brandList} products found matching "${rawQuery}". Try searching without the brand name, or check if we carry ${brandList} products.`
+      };
+    }
 
-      // If no products match the brand, tell the user clearly
-      if (filteredProducts.length === 0) {
-        const brandList = brandTerms.join(', ').toUpperCase();
-        return {
-          success: false,
-          message: `No ${brandList} products found matching "${rawQuery}". Try searching without the brand name, or check if we carry ${brandList} products.`
-        };
-      }
+    // Weighted relevance (model numbers, brand position, term coverage, specs, stock)
+    // Structured filters then narrow the best matches, so only a bounded pool is priced and checked
+    let orderedProducts = rankSearchResults(candidates, normalized.terms, languageId)
+      .slice(0, hasFilters ? SEARCH_FILTER_FETCH_MAX : limit);
+    if (orderedProducts.length === 0) {
+      return { success: false, message: `No products found matching "${rawQuery}". Try being more specific with the product name or model number.` };
+    }
 
-      orderedProducts = filteredProducts.slice(0, limit);
+    const filtered = await applySearchFilters(env, orderedProducts, filters, categoryIds, limit, knownPrices);
+    if (filtered.products.length === 0) {
+      return {
+        success: false,
+        message: `No products matching "${keywords}" ${describeSearchFilters(filters)}. Try a wider price range or without the filters.`
+      };
     }
+    orderedProducts = filtered.products;
+    const prices = filtered.prices;
 
     // For multiple products: use short names for natural listing
     // For single product: use full TTS-friendly name
     const isList = orderedProducts.length > 1;
 
     const products = orderedProducts.map((p: any) => {
-      const fullName = extractProductName(p.name);
+      const fullName = extractProductName(p.name, languageId);
+      const pricing = prices.get(Number(p.id));
       return {
         id: p.id,
-        name: isList ? shortenForListing(fullName) : makeSpeechFriendly(fullName),
-        price: `€${parseFloat(p.price).toFixed(2)}`,
+        name: isList ? shortenForListing(fullName) : makeSpeechFriendly(fullName, language),
+        price: pricing?.price,
+        was_price: pricing?.was_price,
+        ...spokenPrices(pricing, language),
         url: getProductUrl(env, p.id)
       };
     });
@@ -939,7 +5216,7 @@ async function searchProducts(env: Env, args: { query: string; limit?: number })
       success: true,
       count: products.length,
       products: products,
-      note: 'Prices shown exclude VAT. Check product page for delivery times.'
+      note: PRICE_NOTE
     };
   } catch (error) {
     console.error('searchProducts error:', error);
@@ -947,58 +5224,715 @@ async function searchProducts(env: Env, args: { query: string; limit?: number })
   }
 }
 
-// Tool: Create Support Ticket (optimized - with timeout, XML injection protected)
-async function createSupportTicket(env: Env, args: { order_id?: number; message: string; customer_email?: string }) {
+// Helper: Format a PrestaShop customer thread ID as the ticket number read to callers ("TK000123")
+export function formatTicketNumber(threadId: number | string): string {
+  return `TK${String(threadId).padStart(6, '0')}`;
+}
+
+// Helper: Parse a spoken ticket number ("TK000123", "T K 123", "123") back to the thread ID
+export function parseTicketNumber(ticket: string): number | null {
+  const digits = ticket.replace(REGEX_NON_DIGIT, '');
+  const id = parseInt(digits, 10);
+  return digits && id > 0 ? id : null;
+}
+
+// Helper: Latest public staff reply per thread, read back as its first sentences
+export function latestStaffReplies(messages: PrestaShopCustomerMessage[]): Map<number, { date: string; text: string }> {
+  const replies = new Map<number, { date: string; text: string }>();
+  const staff = messages
+    .filter(m => parseInt(m.id_employee, 10) > 0 && m.private !== '1')
+    .sort((a, b) => String(b.date_add).localeCompare(String(a.date_add)) || Number(b.id) - Number(a.id));
+
+  for (const m of staff) {
+    const threadId = Number(m.id_customer_thread);
+    if (replies.has(threadId)) continue;
+    const text = stripHtml(m.message).split(REGEX_SENTENCE_END).slice(0, TICKET_REPLY_SENTENCES).join(' ');
+    replies.set(threadId, { date: String(m.date_add).slice(0, 10), text });
+  }
+  return replies;
+}
+
+// Helper: Ticket category from the agent's argument ("other" when unknown)
+// Own keys only - "constructor" or "toString" must not pass as a category
+export function parseTicketCategory(raw?: string): TicketCategory {
+  return raw && Object.prototype.hasOwnProperty.call(TICKET_CATEGORIES, raw) ? raw as TicketCategory : 'other';
+}
+
+// Helper: Parse SUPPORT_CONTACTS config (ticket category → PrestaShop contact ID, "default" for the rest)
+export function parseSupportContacts(raw?: string): Record<string, number> {
+  const config: Record<string, number> = { default: DEFAULT_SUPPORT_CONTACT_ID };
+  if (!raw) return config;
+
+  try {
+    const parsed = JSON.parse(raw);
+    for (const [key, value] of Object.entries(parsed)) {
+      if (Number.isInteger(value) && (value as number) > 0) {
+        config[key.toLowerCase()] = value as number;
+      }
+    }
+  } catch (error) {
+    console.warn('Invalid SUPPORT_CONTACTS config, using defaults:', error);
+  }
+  return config;
+}
+
+// Helper: Structured call summary stored as the ticket's first message
+export function buildTicketSummary(ticket: {
+  category: TicketCategory;
+  priority: TicketPriority;
+  issue: string;
+  stepsTried?: string;
+  orderReference?: string;
+  email?: string;
+  phone?: string;
+  language: CallerLanguage;
+  callId?: string;
+}): string {
+  const header = [
+    `Category: ${TICKET_CATEGORIES[ticket.category]}`,
+    `Priority: ${ticket.priority}`,
+    ticket.orderReference ? `Order: ${ticket.orderReference}` : null,
+    ticket.email ? `Email: ${ticket.email}` : null,
+    ticket.phone ? `Phone: ${ticket.phone}` : null,
+    `Caller language: ${ticket.language}`,
+    ticket.callId ? `Call ID: ${ticket.callId}` : null
+  ].filter(Boolean).join('\n');
+
+  const sections = [header, `Issue:\n${ticket.issue.trim()}`];
+  if (ticket.stepsTried?.trim()) sections.push(`Already tried:\n${ticket.stepsTried.trim()}`);
+  sections.push('[Created via Alexis Voice Agent]');
+  return sections.join('\n\n');
+}
+
+// Helper: Distinct words of a ticket message for duplicate detection (folded, short words dropped)
+function ticketWords(text: string): Set<string> {
+  return new Set(foldWord(text).split(REGEX_TICKET_WORD_SPLIT).filter(w => w.length > 2));
+}
+
+// Helper: Whether two ticket messages from one call describe the same issue (shared words over the shorter one)
+export function isNearDuplicateTicket(a: string, b: string): boolean {
+  const wordsA = ticketWords(a);
+  const wordsB = ticketWords(b);
+  const shorter = Math.min(wordsA.size, wordsB.size);
+  if (shorter === 0) return false;
+  const shared = [...wordsA].filter(w => wordsB.has(w)).length;
+  return shared / shorter >= TICKET_SIMILARITY_MIN;
+}
+
+// Helper: SHA-256 of the ticket content (whitespace and case insensitive) for the idempotency key
+async function ticketContentHash(parts: (string | number | undefined)[]): Promise<string> {
+  const normalized = parts.map(p => foldWord(String(p ?? '')).replace(/\s+/g, ' ').trim()).join('|');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Ticket opened earlier in the same call (kept in the call's TicketCallLock storage)
+interface TicketRecord {
+  threadId: number;
+  issue: string;
+  summary: string;
+  posted: boolean; // False while the thread exists but its first message hasn't been added yet
+}
+
+// Helper: Add a customer-side message to a ticket thread (CDATA-escaped)
+async function postTicketMessage(env: Env, threadId: number | string, text: string): Promise<void> {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<prestashop>
+  <customer_message>
+    <id_customer_thread>${threadId}</id_customer_thread>
+    <id_employee>0</id_employee>
+    <message><![CDATA[${escapeCdata(text)}]]></message>
+    <private>0</private>
+  </customer_message>
+</prestashop>`;
+
+  await prestashopPost(env, '/customer_messages', xml);
+}
+
+// Helper: Random thread token (PrestaShop uses it for the customer's reply link)
+function generateThreadToken(): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  const bytes = crypto.getRandomValues(new Uint8Array(TICKET_TOKEN_LENGTH));
+  return [...bytes].map(b => alphabet[b % alphabet.length]).join('');
+}
+
+// Tool: Create Support Ticket (customer service thread linked to the customer, order and department)
+// Serialized per call in a TicketCallLock, so a Retell retry waits for the first attempt and then finds its ticket
+// Flat payloads carry no call ID - those lock on the ticket content and the caller's contact details instead
+async function createSupportTicket(env: Env, args: SupportTicketArgs, call: CallContext = {}) {
+  if (!env.TICKET_LOCKS) {
+    console.warn('createSupportTicket: TICKET_LOCKS is not bound, retried requests can open duplicate tickets');
+    return openSupportTicket(env, args, call, null);
+  }
+
+  try {
+    const lockName = call.callId || `content:${await ticketContentHash([
+      args.category, args.message, args.steps_tried, args.reference, args.order_id, args.customer_email, args.phone
+    ])}`;
+    const lock = env.TICKET_LOCKS.get(env.TICKET_LOCKS.idFromName(lockName));
+    const response = await lock.fetch('https://ticket-lock/', { method: 'POST', body: JSON.stringify({ args, call }) });
+    return await response.json();
+  } catch (error) {
+    console.error('createSupportTicket lock error:', error);
+    return { success: false, message: TICKET_TEXT[callerLanguage(args, call)].failed };
+  }
+}
+
+// Durable Object: one instance per call (or ticket content) - runs its ticket requests one at a time on consistent storage
+export class TicketCallLock {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private state: DurableObjectState, private env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { args, call } = await request.json<{ args: SupportTicketArgs; call: CallContext }>();
+    const run = this.queue.then(() => openSupportTicket(this.env, args, call, this.state.storage));
+    this.queue = run.catch(() => undefined);
+    const result = await run;
+    await this.state.storage.setAlarm(Date.now() + TICKET_STATE_TTL);
+    return new Response(JSON.stringify(result), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  // The call is long over - drop its ticket state
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+// Arguments the agent passes to createSupportTicket
+interface SupportTicketArgs {
+  message: string;
+  category?: string;
+  priority?: string;
+  steps_tried?: string;
+  order_id?: number;
+  reference?: string;
+  customer_email?: string;
+  phone?: string;
+  language?: string;
+}
+
+// Helper: Open the ticket - idempotent per call when given the call's lock storage
+async function openSupportTicket(
+  env: Env,
+  args: SupportTicketArgs,
+  call: CallContext,
+  storage: DurableObjectStorage | null
+) {
+  const language = callerLanguage(args, call);
+  const text = TICKET_TEXT[language];
   try {
     // Validate message is not empty
     if (!args.message?.trim()) {
-      return { success: false, message: 'Please describe your issue so we can help you.' };
+      return { success: false, message: text.describe };
+    }
+    if (args.customer_email && !isValidEmail(args.customer_email)) {
+      return { success: false, message: text.invalidEmail };
     }
 
-    const url = `${env.PRESTASHOP_URL}/messages?output_format=JSON`;
+    const category = parseTicketCategory(args.category);
+    const priority = TICKET_PRIORITIES.includes(args.priority as TicketPriority) ? args.priority as TicketPriority : 'normal';
 
-    // Escape CDATA breakout sequences to prevent XML injection
-    const safeMessage = escapeCdata(args.message);
-    const safeOrderId = args.order_id ? String(Math.abs(Math.floor(args.order_id))) : '';
+    // Idempotent per call: a retry returns the original ticket, a near-duplicate is added to it
+    const exactKey = `ticket:${await ticketContentHash([category, args.message, args.steps_tried, args.reference, args.order_id])}`;
+    if (storage) {
+      const [repeat, previous] = await Promise.all([
+        storage.get<TicketRecord>(exactKey),
+        storage.get<TicketRecord>('latest')
+      ]);
+      if (repeat) {
+        // The first attempt created the thread but failed before its message - finish it now
+        if (!repeat.posted) {
+          await postTicketMessage(env, repeat.threadId, repeat.summary);
+          await storage.put({ [exactKey]: { ...repeat, posted: true }, latest: { ...repeat, posted: true } });
+        }
+        const ticketNumber = formatTicketNumber(repeat.threadId);
+        return {
+          success: true,
+          ticket_number: ticketNumber,
+          duplicate: true,
+          message: text.duplicate(ticketNumber)
+        };
+      }
+      if (previous?.posted && isNearDuplicateTicket(previous.issue, args.message)) {
+        const followUp = [`Follow-up from the same call:\n${args.message.trim()}`];
+        if (args.steps_tried?.trim()) followUp.push(`Already tried:\n${args.steps_tried.trim()}`);
+        followUp.push('[Added via Alexis Voice Agent]');
+        await postTicketMessage(env, previous.threadId, followUp.join('\n\n'));
+        await storage.put(exactKey, previous);
+
+        const ticketNumber = formatTicketNumber(previous.threadId);
+        return {
+          success: true,
+          ticket_number: ticketNumber,
+          updated: true,
+          message: text.updated(ticketNumber)
+        };
+      }
+    }
 
-    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+    // Related order (spoken reference or order ID) - its owner is the ticket's customer
+    let order: Pick<PrestaShopOrder, 'id' | 'id_customer' | 'reference'> | null = null;
+    if (args.reference) {
+      const found = await findOrderByReference<PrestaShopOrder>(env, args.reference, '[id,id_customer,reference]');
+      if (!found.success) return found;
+      order = found.order;
+    } else if (args.order_id) {
+      const data = await prestashopFetch(env, `/orders/${Math.abs(Math.floor(args.order_id))}?display=[id,id_customer,reference]`);
+      order = data.orders?.[0] || data.order || null;
+    }
+
+    // Customer from the order, otherwise from the email/phone they gave (guests still get a ticket)
+    let customerId = order ? parseInt(String(order.id_customer), 10) || 0 : 0;
+    if (!customerId && (args.customer_email || args.phone)) {
+      const customer = await resolveCustomerId(env, { email: args.customer_email, phone: args.phone });
+      if (customer.success) customerId = customer.customerId;
+    }
+
+    // Email to reply on: what the caller gave, else the account's
+    let email = args.customer_email?.trim();
+    const [languageId, account] = await Promise.all([
+      getLanguageId(env, language),
+      !email && customerId ? prestashopFetch(env, `/customers/${customerId}?display=[id,email]`) : Promise.resolve(null)
+    ]);
+    email = email || (account?.customers?.[0] || account?.customer)?.email;
+    if (!email && !args.phone) {
+      return { success: false, message: text.needContact };
+    }
+
+    const contacts = parseSupportContacts(env.SUPPORT_CONTACTS);
+    const contactId = contacts[category] ?? contacts.default;
+
+    const threadXml = `<?xml version="1.0" encoding="UTF-8"?>
 <prestashop>
-  <message>
-    <id_order>${safeOrderId}</id_order>
-    <message><![CDATA[${safeMessage}\n\n[Created via Alexis Voice Agent]]]></message>
-    <private>0</private>
-  </message>
+  <customer_thread>
+    <id_lang>${languageId}</id_lang>
+    <id_contact>${contactId}</id_contact>
+    <id_customer>${customerId}</id_customer>
+    <id_order>${order ? order.id : 0}</id_order>
+    <email><![CDATA[${escapeCdata(email || '')}]]></email>
+    <token>${generateThreadToken()}</token>
+    <status>open</status>
+  </customer_thread>
 </prestashop>`;
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000);
+    const summary = buildTicketSummary({
+      category,
+      priority,
+      issue: args.message,
+      stepsTried: args.steps_tried,
+      orderReference: order?.reference,
+      email,
+      phone: args.phone,
+      language,
+      callId: call.callId
+    });
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Authorization': getAuthHeader(env.PRESTASHOP_API_KEY),
-        'Content-Type': 'application/xml'
-      },
-      body: xml,
-      signal: controller.signal
+    const thread = await prestashopPost(env, '/customer_threads', threadXml);
+    const threadId = thread.customer_thread?.id;
+    if (!threadId) {
+      throw new Error('Customer thread created without an ID');
+    }
+
+    // Recorded before the message goes out, so a retry after a failed post finishes this thread instead of opening another
+    const record: TicketRecord = { threadId: Number(threadId), issue: args.message, summary, posted: false };
+    if (storage) await storage.put({ [exactKey]: record, latest: record });
+    await postTicketMessage(env, threadId, summary);
+    if (storage) await storage.put({ [exactKey]: { ...record, posted: true }, latest: { ...record, posted: true } });
+
+    const ticketNumber = formatTicketNumber(threadId);
+    return {
+      success: true,
+      ticket_number: ticketNumber,
+      category,
+      priority,
+      message: priority === 'high' || priority === 'urgent'
+        ? text.createdUrgent(ticketNumber, priority)
+        : text.created(ticketNumber)
+    };
+  } catch (error) {
+    console.error('createSupportTicket error:', error);
+    return { success: false, message: text.failed };
+  }
+}
+
+// Tool: Get Ticket Status (open support tickets by ticket number, email or phone - replies need a verified caller)
+async function getTicketStatus(
+  env: Env,
+  args: { ticket_number?: string; email?: string; phone?: string; language?: string } & IdentityAnswers,
+  call: CallContext = {}
+) {
+  const language = callerLanguage(args, call);
+  const text = TICKET_STATUS_TEXT[language];
+  try {
+    const fields = '[id,id_customer,id_order,email,status,date_add,date_upd]';
+    let threads: PrestaShopCustomerThread[];
+
+    if (args.ticket_number) {
+      const threadId = parseTicketNumber(args.ticket_number);
+      if (!threadId) {
+        return { success: false, message: text.invalidNumber };
+      }
+      const data = await prestashopFetch(env, `/customer_threads?filter[id]=${threadId}&display=${fields}`);
+      threads = data.customer_threads || [];
+    } else if (args.email || args.phone) {
+      const customer = await resolveCustomerId(env, args);
+      if (customer.success) {
+        const data = await prestashopFetch(env, `/customer_threads?filter[id_customer]=${customer.customerId}&display=${fields}&sort=[id_DESC]&limit=${VOICE_ITEM_LIMIT}`);
+        threads = data.customer_threads || [];
+      } else if (args.email && isValidEmail(args.email)) {
+        // Guests have no account - their tickets carry only the email
+        const data = await prestashopFetch(env, `/customer_threads?filter[email]=${encodeURIComponent(args.email)}&display=${fields}&sort=[id_DESC]&limit=${VOICE_ITEM_LIMIT}`);
+        threads = data.customer_threads || [];
+      } else {
+        return customer;
+      }
+      // Closed tickets only matter when asked for by number
+      threads = threads.filter(t => t.status !== 'closed');
+    } else {
+      return { success: false, message: text.needLookup };
+    }
+
+    if (threads.length === 0) {
+      return { success: false, message: text.notFound };
+    }
+
+    // Ticket numbers are sequential, so they prove nothing - verify like the order tools
+    // Account holders answer last name or postcode; guests need the ticket number and the email on it
+    const selected = threads.slice(0, VOICE_ITEM_LIMIT);
+    const customerId = parseInt(String(selected[0].id_customer), 10) || 0;
+    const keys = verificationKeys(call, customerId ? `customer:${customerId}` : `ticket:${selected[0].id}`);
+    let verified: boolean;
+    if (customerId) {
+      verified = await verifyCaller(env, call, customerId, args, []);
+    } else {
+      verified = !!args.ticket_number && !!args.email && !(await verificationLocked(env, keys)) &&
+        selected[0].email?.trim().toLowerCase() === args.email.trim().toLowerCase();
+      if (!verified && args.ticket_number && args.email) await countVerificationFailure(env, keys);
+    }
+    const stateLabel = (status: string) => TICKET_STATES[language][status] || TICKET_STATES[language].open;
+
+    if (!verified) {
+      return {
+        success: true,
+        verified: false,
+        status: stateLabel(selected[0].status),
+        message: keys.some(isVerificationLocked) ? text.locked : customerId ? text.verify : text.verifyGuest
+      };
+    }
+
+    const messages = await prestashopFetch(
+      env,
+      `/customer_messages?filter[id_customer_thread]=[${selected.map(t => t.id).join('|')}]&display=[id,id_customer_thread,id_employee,message,private,date_add]`
+    );
+    const replies = latestStaffReplies(messages.customer_messages || []);
+
+    const today = todayInCyprus();
+    const tickets = selected.map(t => {
+      const reply = replies.get(Number(t.id));
+      return {
+        ticket_number: formatTicketNumber(t.id),
+        status: stateLabel(t.status),
+        opened: describeDay(String(t.date_add).slice(0, 10), today, language),
+        last_reply: reply ? describeDay(reply.date, today, language) : undefined,
+        latest_reply: reply?.text
+      };
     });
 
-    clearTimeout(timeoutId);
+    return {
+      success: true,
+      verified: true,
+      count: tickets.length,
+      tickets,
+      message: tickets[0].latest_reply && tickets[0].last_reply
+        ? text.lastReply(tickets[0].last_reply, tickets[0].latest_reply)
+        : text.noReply
+    };
+  } catch (error) {
+    console.error('getTicketStatus error:', error);
+    return { success: false, message: text.failed };
+  }
+}
 
-    if (!response.ok) {
-      throw new Error(`Failed to create ticket: ${response.status}`);
+// Helper: Callbacks staff can take per slot
+function callbackCapacity(env: Env): number {
+  return parseInt(env.CALLBACK_SLOT_CAPACITY || '', 10) || DEFAULT_CALLBACK_CAPACITY;
+}
+
+// Request to the CallbackSlots object: current counts, or reserve/release a place in a slot
+type CallbackSlotRequest =
+  | { action: 'counts'; today: string }
+  | { action: 'reserve'; slot: string; bookingId: string }
+  | { action: 'release'; slot: string; bookingId: string };
+
+// Durable Object: single instance holding every slot's bookings, so checking capacity and taking a place is one step
+export class CallbackSlots {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private state: DurableObjectState, private env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const body = await request.json<CallbackSlotRequest>();
+    const run = this.queue.then(() => this.handle(body));
+    this.queue = run.catch(() => undefined);
+    return new Response(JSON.stringify(await run), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  private async handle(body: CallbackSlotRequest): Promise<unknown> {
+    const storage = this.state.storage;
+    if (body.action === 'counts') {
+      // Slots are keyed by their time, so past days sort first and are dropped here
+      const slots = await storage.list<string[]>();
+      const past = [...slots.keys()].filter(slot => slot < body.today);
+      if (past.length > 0) await storage.delete(past);
+      return Object.fromEntries([...slots].filter(([slot]) => slot >= body.today).map(([slot, ids]) => [slot, ids.length]));
+    }
+
+    const ids = (await storage.get<string[]>(body.slot)) || [];
+    if (body.action === 'release') {
+      const rest = ids.filter(id => id !== body.bookingId);
+      if (rest.length > 0) await storage.put(body.slot, rest);
+      else await storage.delete(body.slot);
+      return { released: true };
+    }
+
+    // One place per call and slot, so a retried request doesn't take a second one
+    if (ids.includes(body.bookingId)) return { reserved: true, existing: true };
+    if (ids.length >= callbackCapacity(this.env)) return { reserved: false, existing: false };
+    await storage.put(body.slot, [...ids, body.bookingId]);
+    return { reserved: true, existing: false };
+  }
+}
+
+// Helper: Send a request to the CallbackSlots object
+async function callbackSlots<T>(namespace: DurableObjectNamespace, body: CallbackSlotRequest): Promise<T> {
+  const slots = namespace.get(namespace.idFromName('slots'));
+  const response = await slots.fetch('https://callback-slots/', { method: 'POST', body: JSON.stringify(body) });
+  return response.json<T>();
+}
+
+// Tool: Schedule Callback (next free slots in Cyprus opening hours, or book one for the staff queue)
+async function scheduleCallback(
+  env: Env,
+  args: { slot?: string; phone?: string; issue?: string; language?: string },
+  call: CallContext = {}
+) {
+  const language = callerLanguage(args, call);
+  const text = CALLBACK_TEXT[language];
+  try {
+    if (!env.CALLBACKS || !env.CALLBACK_SLOTS) {
+      return { success: false, message: text.unavailable };
+    }
+
+    const now = clockInCyprus();
+    const hours = parseStoreHours(env.STORE_HOURS);
+    const closedDays = parseStoreHolidays(env.STORE_HOLIDAYS, now.day);
+    const counts = await callbackSlots<Record<string, number>>(env.CALLBACK_SLOTS, { action: 'counts', today: now.day });
+    const booked = new Map(Object.entries(counts));
+
+    const offer = () => nextCallbackSlots(now, hours, closedDays, booked, callbackCapacity(env))
+      .map(slot => ({ slot, when: describeSlot(slot, now.day, language) }));
+
+    // No slot chosen yet - offer the next free ones
+    if (!args.slot?.trim()) {
+      const slots = offer();
+      if (slots.length === 0) {
+        return { success: false, message: text.noSlots };
+      }
+      return {
+        success: true,
+        slots,
+        message: text.offer(slots.map(s => s.when).join(text.or))
+      };
+    }
+
+    const slot = args.slot.trim();
+    if (!isCallbackSlot(slot, now, hours, closedDays)) {
+      const slots = offer();
+      return {
+        success: false,
+        slots,
+        message: text.notAvailable(slots.map(s => s.when).join(text.or))
+      };
+    }
+
+    if (!args.issue?.trim()) {
+      return { success: false, message: text.askIssue };
+    }
+    const phone = normalizePhoneNumber(args.phone || call.fromNumber || '');
+    if (!phone) {
+      return { success: false, message: text.askPhone };
+    }
+
+    // Take the place first - the object refuses it once the slot is at capacity
+    const bookingId = call.callId || generateThreadToken();
+    const { reserved, existing } = await callbackSlots<{ reserved: boolean; existing: boolean }>(env.CALLBACK_SLOTS, { action: 'reserve', slot, bookingId });
+    if (!reserved) {
+      booked.set(slot, callbackCapacity(env));
+      const slots = offer();
+      return {
+        success: false,
+        slots,
+        message: text.filled(slots.map(s => s.when).join(text.or))
+      };
+    }
+
+    const daysAhead = Math.round((parseDay(slot).getTime() - parseDay(now.day).getTime()) / 86400000);
+    try {
+      await env.CALLBACKS.put(
+        `${CALLBACK_KEY_PREFIX}${slot}:${bookingId}`,
+        JSON.stringify({
+          slot,
+          phone,
+          language,
+          issue: args.issue.trim(),
+          call_id: call.callId,
+          booked_at: nowInCyprus()
+        }),
+        { expirationTtl: (daysAhead + 2) * 86400 } // Gone from the queue a day after the callback
+      );
+    } catch (error) {
+      // Not in the staff queue - give the place back (unless an earlier attempt already booked it)
+      if (!existing) await callbackSlots(env.CALLBACK_SLOTS, { action: 'release', slot, bookingId });
+      throw error;
     }
 
+    const when = describeSlot(slot, now.day, language);
     return {
       success: true,
-      message: 'I have created a support ticket for you. Our team will follow up within 24 hours.'
+      slot,
+      when,
+      message: text.booked(when, phone.slice(-4))
     };
   } catch (error) {
-    console.error('createSupportTicket error:', error);
+    console.error('scheduleCallback error:', error);
+    return { success: false, message: text.failed };
+  }
+}
+
+// Helper: Get active stores (cached 1 hour like carriers)
+async function getStores(env: Env): Promise<PrestaShopStore[]> {
+  const now = Date.now();
+
+  if (now - storeCacheTime < CARRIER_CACHE_TTL && storeCache.length > 0) {
+    return storeCache;
+  }
+
+  try {
+    const data = await prestashopFetch(env, `/stores?filter[active]=[1]&display=[id,name,address1,postcode,city,phone,active,hours]`);
+    storeCache = data.stores || [];
+    storeCacheTime = now;
+  } catch (error) {
+    console.warn('getStores failed', error);
+  }
+  return storeCache;
+}
+
+// Tool: Get Store Info (opening status for a day, holiday closures, store addresses and pickup)
+async function getStoreInfo(env: Env, args: { date?: string; language?: string }, call: CallContext = {}) {
+  const language = callerLanguage(args, call);
+  const text = STORE_INFO_TEXT[language];
+  try {
+    const now = clockInCyprus();
+
+    const day = resolveStoreDate(args.date, now.day);
+    if (!day) {
+      return { success: false, message: text.whichDay };
+    }
+
+    const configuredHours = parseStoreHours(env.STORE_HOURS);
+    const closedDays = parseStoreHolidays(env.STORE_HOLIDAYS, now.day);
+    const [languageId, stores] = await Promise.all([getLanguageId(env, language), getStores(env)]);
+
+    // Each store's own hours from PrestaShop, the configured hours where it has none
+    const storeHours = stores.map(store => parseStoreHoursField(pickLanguageValue(store.hours, languageId)) ?? configuredHours);
+    const schedules = storeHours.length > 0
+      ? [...new Map(storeHours.map(hours => [JSON.stringify(hours), hours])).values()]
+      : [configuredHours];
+
+    // Status for the asked day, and right now when it's today
+    const dayLabel = describeDay(day, now.day, language);
+    const statusOf = (hours: StoreHours) => {
+      const open = storeHoursOn(day, hours, closedDays);
+      const holiday = closedDays.has(day) && !!hours[parseDay(day).getUTCDay()];
+      const sentences = [
+        open ? text.open(capitalize(dayLabel), spokenHours(open, language))
+          : holiday ? text.holiday(capitalize(dayLabel))
+          : text.closed(capitalize(dayLabel))
+      ];
+
+      let openNow: boolean | undefined;
+      if (day === now.day) {
+        openNow = !!open && now.minutes >= open[0] && now.minutes < open[1];
+        if (openNow) {
+          sentences.push(text.openNow(spokenTime(open![1], language, true)));
+        } else {
+          // Next opening: later today, or the next open day
+          const date = parseDay(now.day);
+          for (let i = 0; i < STORE_CLOSURES_DAYS; i++) {
+            const candidate = date.toISOString().slice(0, 10);
+            const candidateHours = storeHoursOn(candidate, hours, closedDays);
+            date.setUTCDate(date.getUTCDate() + 1);
+            if (!candidateHours || (i === 0 && now.minutes >= candidateHours[0])) continue;
+            sentences.push(text.opensAt(describeDay(candidate, now.day, language), spokenAtTime(candidateHours[0], language)));
+            break;
+          }
+        }
+      }
+      return { open, holiday, openNow, message: sentences.join(' ') };
+    };
+    const statuses = storeHours.map(statusOf);
+    const shared = schedules.length === 1 ? statusOf(schedules[0]) : null;
+
+    // Holidays in the next two weeks that close a store on a normally open day
+    const closures: { date: string; when: string }[] = [];
+    const date = parseDay(now.day);
+    for (let i = 0; i < STORE_CLOSURES_DAYS; i++) {
+      const candidate = date.toISOString().slice(0, 10);
+      date.setUTCDate(date.getUTCDate() + 1);
+      if (closedDays.has(candidate) && schedules.some(hours => hours[parseDay(candidate).getUTCDay()])) {
+        closures.push({ date: candidate, when: describeDay(candidate, now.day, language) });
+      }
+    }
+
+    const pickupIds = (() => {
+      try {
+        const parsed = env.PICKUP_STORES ? JSON.parse(env.PICKUP_STORES) : null;
+        return Array.isArray(parsed) ? new Set(parsed.map(Number)) : null;
+      } catch (error) {
+        console.warn('Invalid PICKUP_STORES config, offering pickup at every store:', error);
+        return null;
+      }
+    })();
+    const storeList = stores.map((store, i) => ({
+      id: Number(store.id),
+      name: pickLanguageValue(store.name, languageId) || 'Armenius',
+      address: [pickLanguageValue(store.address1, languageId), [store.postcode, store.city].filter(Boolean).join(' ')]
+        .filter(Boolean).join(', '),
+      phone: store.phone || undefined,
+      open: !!statuses[i].open,
+      hours: statuses[i].open ? `${formatClock(statuses[i].open![0])}-${formatClock(statuses[i].open![1])}` : undefined,
+      open_now: statuses[i].openNow,
+      pickup: !pickupIds || pickupIds.has(Number(store.id))
+    }));
+    const pickupStores = storeList.filter(s => s.pickup).map(s => s.name);
+
+    // One answer when every store keeps the same hours, otherwise one per store
     return {
-      success: false,
-      message: 'I was unable to create the support ticket automatically. Please email support@armenius.cy or call during business hours.'
+      success: true,
+      date: day,
+      open: shared ? !!shared.open : statuses.some(status => status.open),
+      holiday: shared ? shared.holiday : statuses.some(status => status.holiday),
+      hours: shared?.open ? `${formatClock(shared.open[0])}-${formatClock(shared.open[1])}` : undefined,
+      open_now: shared ? shared.openNow : day === now.day ? statuses.some(status => status.openNow) : undefined,
+      upcoming_closures: closures.length > 0 ? closures : undefined,
+      stores: storeList,
+      pickup_message: pickupStores.length > 0 ? text.pickup(pickupStores.join(', ')) : undefined,
+      message: shared ? shared.message : storeList.map((store, i) => `${store.name}: ${statuses[i].message}`).join(' ')
     };
+  } catch (error) {
+    console.error('getStoreInfo error:', error);
+    return { success: false, message: text.failed };
   }
 }
 
@@ -1021,12 +5955,22 @@ const RATE_LIMITED = JSON.stringify({ error: 'Too many requests' });
 const INTERNAL_ERROR = JSON.stringify({ error: 'Internal server error' });
 
 // Tool name mapping for Retell path-based routing
-const RETELL_TOOLS: Record<string, (env: Env, args: any) => Promise<any>> = {
+const RETELL_TOOLS: Record<string, (env: Env, args: any, call: CallContext) => Promise<any>> = {
   'getOrderStatus': getOrderStatus,
+  'listCustomerOrders': listCustomerOrders,
+  'getOrderTimeline': getOrderTimeline,
+  'requestReturn': requestReturn,
+  'getReturnStatus': getReturnStatus,
   'checkProductStock': checkProductStock,
   'getTrackingInfo': getTrackingInfo,
   'searchProducts': searchProducts,
-  'createSupportTicket': createSupportTicket
+  'getProductDetails': getProductDetails,
+  'compareProducts': compareProducts,
+  'browseCategory': browseCategory,
+  'createSupportTicket': createSupportTicket,
+  'getTicketStatus': getTicketStatus,
+  'scheduleCallback': scheduleCallback,
+  'getStoreInfo': getStoreInfo
 };
 
 // Main handler - Retell AI webhook
@@ -1090,11 +6034,24 @@ export default {
         }
       }
 
-      // Retell sends params directly at root level
-      const args = JSON.parse(bodyText);
+      // Retell sends params directly at root level, or as { call, name, args } when
+      // the call object is included (needed for per-call state like caller verification)
+      const payload = JSON.parse(bodyText);
+      const wrapped = payload?.call && payload?.args && typeof payload.args === 'object';
+      const args = wrapped ? payload.args : payload;
+      const call: CallContext = wrapped
+        ? {
+            callId: payload.call.call_id,
+            fromNumber: payload.call.from_number,
+            language: payload.call.metadata?.language || payload.call.retell_llm_dynamic_variables?.language
+          }
+        : {};
 
-      // Execute tool
-      const result = await handler(env, args);
+      // Execute tool, then apply the pronunciation lexicon to what will be read aloud
+      const result = pronounceResult(
+        await handler(env, args, call),
+        await getPronunciations(env, callerLanguage(args || {}, call))
+      );
 
       // Log performance
       const duration = Date.now() - startTime;
@@ -1109,5 +6066,13 @@ export default {
       console.error('Webhook error:', error);
       return new Response(INTERNAL_ERROR, { status: 500, headers: RETELL_JSON_HEADERS });
     }
+  },
+
+  // Cron trigger - rebuild the local catalog search index
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(
+      syncCatalogIndex(env)
+        .catch(error => console.error('[cron] Catalog sync failed, keeping the previous index:', error))
+    );
   }
 };